@@ -0,0 +1,52 @@
+/*
+ * BoneMarrow
+ * Copyright (c) 2025-present Karthick Raj
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ */
+
+import {FetchOptions} from "../types/index";
+import {fetchJson} from "./fetch";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cached fetches for Model and Collection (internal)
+//
+// Both apply a fetched response with set() / reset(). When the HTTP cache
+// answers with the entry they applied last time there is nothing new, and
+// applying it again would only fire change events for nothing.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * fetchJson, resolving with undefined when the cache serves the same version
+ * last applied from that URL. applied maps URL → cache version and is
+ * updated here.
+ */
+export async function fetchUnlessApplied<T>(
+    url: string,
+    options: FetchOptions<T>,
+    applied: Map<string, string>
+): Promise<T | undefined> {
+    let version: string | undefined;
+
+    const data = await fetchJson<T>(url, {
+        ...options,
+        onCache: (info) => {
+            version = info.version;
+            options.onCache?.(info);
+        },
+    });
+
+    if (version !== undefined) {
+        if (applied.get(url) === version) return undefined;
+        applied.set(url, version);
+    }
+    return data;
+}
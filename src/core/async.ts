@@ -0,0 +1,119 @@
+/*
+ * BoneMarrow
+ * Copyright (c) 2025-present Karthick Raj
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// BoneMarrow Async Helpers v1.2
+//
+// Small cancellation-aware primitives shared by Scope, fetch and refresh.
+// One copy of each, so abort detection behaves the same everywhere.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Several failures reported as one error.
+ *
+ * Library-defined so it works on the es2019 build target, where the native
+ * AggregateError is not guaranteed to exist.
+ */
+export class CompositeError extends Error {
+    readonly errors: unknown[];
+
+    constructor(errors: unknown[], message: string) {
+        super(message);
+        this.name   = "CompositeError";
+        this.errors = errors;
+    }
+}
+
+/**
+ * Detect abort errors across environments.
+ * Checks error.name (modern standard) and error.code === 20 (legacy
+ * DOMException in older Safari and some React Native environments).
+ */
+export function isAbortError(error: unknown): boolean {
+    return (
+        error instanceof Error &&
+        (error.name === "AbortError" || (error as any).code === 20)
+    );
+}
+
+/**
+ * Wait for `ms` milliseconds, resolving early if the signal aborts.
+ * Resolves (never rejects) — the caller checks abort state after awaiting.
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve) => {
+        if (signal?.aborted) {
+            resolve();
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timeoutId);
+            resolve();
+        };
+
+        const timeoutId = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+/**
+ * Settle with the first promise to fulfil. Rejects with a CompositeError
+ * holding every reason (in input order) if all of them reject.
+ * Promise.any() without the ES2021 dependency.
+ */
+export function firstFulfilled<T>(promises: Array<PromiseLike<T>>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        if (promises.length === 0) {
+            reject(new CompositeError([], "No promises to settle"));
+            return;
+        }
+
+        const errors: unknown[] = new Array(promises.length);
+        let remaining = promises.length;
+
+        promises.forEach((promise, index) => {
+            Promise.resolve(promise).then(resolve, (error) => {
+                errors[index] = error;
+                if (--remaining === 0) {
+                    reject(new CompositeError(errors, `All ${errors.length} task(s) failed`));
+                }
+            });
+        });
+    });
+}
+
+/**
+ * A promise that rejects with signal.reason once the signal aborts, for
+ * racing against work that does not watch the signal itself. Never settles
+ * if the signal never aborts — call detach() when the race is over.
+ * The rejection is pre-observed, so an unraced one is not reported.
+ */
+export function abortRejection(signal: AbortSignal): { promise: Promise<never>; detach: () => void } {
+    let onAbort = () => {};
+
+    const promise = new Promise<never>((_, reject) => {
+        onAbort = () => reject(signal.reason);
+        if (signal.aborted) onAbort();
+        else signal.addEventListener("abort", onAbort, { once: true });
+    });
+    promise.catch(() => {});
+
+    return { promise, detach: () => signal.removeEventListener("abort", onAbort) };
+}
@@ -0,0 +1,283 @@
+/*
+ * BoneMarrow
+ * Copyright (c) 2025-present Karthick Raj
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ */
+
+import {BridgeOptions, BridgeTarget, DisposableFn} from "../types/index";
+import {log} from "./config";
+import {toDisposableFn} from "./disposable";
+import {TypedEmitter} from "./emitter";
+import {createId} from "./util";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// BoneMarrow Bridge v1.2
+//
+// Connects a TypedEmitter to another JS context — a tab (BroadcastChannel),
+// a worker (Worker / self), or anything on the end of a MessagePort.
+// emit() on one side fires listeners on the other with the same typed API.
+//
+// Loop safety: every emission carries the id of the emitter it started on
+// and a unique message id. A bridge never posts an emission back over the
+// bridge it arrived on, and an emitter drops messages it started or has
+// already seen — so hubs and cycles of bridges deliver each emission once.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const PROTOCOL = "bonemarrow-bridge/1";
+
+/** How many message ids an emitter remembers for duplicate detection. */
+const SEEN_LIMIT = 256;
+
+interface BridgeMessage {
+    protocol: typeof PROTOCOL;
+    channel: string;
+    /** Unique per emission, kept across hops. */
+    id: string;
+    /** Emitter the emission started on. */
+    origin: string;
+    event: string;
+    args: unknown[];
+}
+
+/** One bridge's outgoing side. */
+interface BridgeLink {
+    id: string;
+    send(message: BridgeMessage): void;
+}
+
+/**
+ * Bridge bookkeeping shared by every bridge on one emitter. A single onAny()
+ * listener forwards each emission to all links, so it gets one message id
+ * however many bridges carry it. inbound is set while a received message is
+ * being re-emitted locally, until the forwarder has relayed that emission.
+ */
+interface EmitterBridgeState {
+    id: string;
+    seq: number;
+    seen: Set<string>;
+    links: Set<BridgeLink>;
+    inbound?: { message: BridgeMessage; via: string };
+    offAny?: () => void;
+}
+
+const emitterStates = new WeakMap<object, EmitterBridgeState>();
+
+/** Add a link, installing the shared forwarder with the first one. */
+function attach<TEvents extends Record<string, unknown[]>>(
+    emitter: TypedEmitter<TEvents>,
+    link: BridgeLink
+): EmitterBridgeState {
+    let state = emitterStates.get(emitter);
+    if (!state) {
+        state = { id: createId(), seq: 0, seen: new Set(), links: new Set() };
+        emitterStates.set(emitter, state);
+    }
+
+    state.links.add(link);
+
+    if (!state.offAny) {
+        const shared = state;
+        const forward = (event: keyof TEvents, ...args: unknown[]) => {
+            // Only the re-emission of the received message keeps its id,
+            // origin and route. Events its handlers emit are new emissions
+            // of this emitter — they must go back over every link, including
+            // the one the message came in on (e.g. a worker's reply).
+            const inbound = shared.inbound?.message.event === String(event) ? shared.inbound : undefined;
+            shared.inbound = undefined;
+
+            const message: BridgeMessage = {
+                protocol: PROTOCOL,
+                channel:  "", // set per link
+                id:       inbound?.message.id     ?? `${shared.id}:${++shared.seq}`,
+                origin:   inbound?.message.origin ?? shared.id,
+                event:    String(event),
+                args,
+            };
+
+            for (const target of [...shared.links]) {
+                // Never send an emission back the way it came.
+                if (target.id !== inbound?.via) target.send(message);
+            }
+        };
+
+        state.offAny = emitter.onAny(
+            // Generic over TEvents, so the tuple union can't be checked here.
+            forward as (...args: any[]) => void,
+            // Forward before local handlers run, so stopPropagation() in an
+            // app handler does not keep the event from the other side.
+            { priority: Number.MAX_SAFE_INTEGER }
+        );
+    }
+
+    return state;
+}
+
+/** Remove a link, and the shared forwarder with the last one. */
+function detach(state: EmitterBridgeState, link: BridgeLink): void {
+    state.links.delete(link);
+    if (state.links.size === 0) {
+        state.offAny?.();
+        state.offAny = undefined;
+    }
+}
+
+/** Remember a message id. Returns false if it was already seen. */
+function markSeen(state: EmitterBridgeState, id: string): boolean {
+    if (state.seen.has(id)) return false;
+
+    state.seen.add(id);
+    if (state.seen.size > SEEN_LIMIT) {
+        // Sets iterate in insertion order — the first entry is the oldest.
+        state.seen.delete(state.seen.values().next().value!);
+    }
+    return true;
+}
+
+function isBridgeMessage(data: unknown, channel: string): data is BridgeMessage {
+    return (
+        typeof data === "object" &&
+        data !== null &&
+        (data as BridgeMessage).protocol === PROTOCOL &&
+        (data as BridgeMessage).channel === channel &&
+        typeof (data as BridgeMessage).event === "string" &&
+        Array.isArray((data as BridgeMessage).args)
+    );
+}
+
+/**
+ * Connect an emitter to a BroadcastChannel, MessagePort, Worker or worker
+ * global scope. Local emissions are posted to the other side; messages from
+ * the other side are emitted locally. Set up the same bridge on both ends.
+ *
+ * Pass a string to open a BroadcastChannel of that name — the bridge then
+ * owns it and closes it on teardown. A transport you pass in is left open.
+ *
+ * Arguments must survive structured cloning (see options.serialize).
+ * A failed post is reported to the scope's error boundary, or logged.
+ *
+ * Returns a DisposeFn that tears the bridge down. Also torn down when
+ * options.scope is disposed.
+ *
+ * @example
+ * // main thread
+ * bridgeEmitter(events, worker, { scope });
+ *
+ * // worker
+ * bridgeEmitter(events, self);
+ *
+ * // every tab of the app
+ * bridgeEmitter(events, "app-events", { scope, events: ["logout"] });
+ */
+export function bridgeEmitter<TEvents extends Record<string, unknown[]>>(
+    emitter: TypedEmitter<TEvents>,
+    target: BridgeTarget | string,
+    options: BridgeOptions<TEvents> = {}
+): DisposableFn {
+    const { scope, channel = "bonemarrow", serialize, deserialize } = options;
+    const allowed = options.events ? new Set<keyof TEvents>(options.events) : undefined;
+
+    const owned = typeof target === "string" ? new BroadcastChannel(target) : undefined;
+    const transport: BridgeTarget = owned ?? (target as BridgeTarget);
+
+    const bridgeId = createId();
+
+    const report = (message: string, error: unknown) => {
+        if (!scope?.reportError(error, "emitter")) {
+            log("Bridge", "error", message, { error, context: { channel } });
+        }
+    };
+
+    // ── Outgoing ─────────────────────────────────────────────────────────────
+
+    const link: BridgeLink = {
+        id: bridgeId,
+        send(shared) {
+            const event = shared.event as keyof TEvents;
+            if (allowed && !allowed.has(event)) return;
+
+            try {
+                transport.postMessage({
+                    ...shared,
+                    channel,
+                    args: serialize ? serialize(event, shared.args) : shared.args,
+                });
+                log("Bridge", "debug", `Posted "${shared.event}"`, { context: { channel } });
+            } catch (error) {
+                report(`Failed to post "${shared.event}" — are its arguments structured-cloneable?`, error);
+            }
+        },
+    };
+
+    const state = attach(emitter, link);
+
+    // ── Incoming ─────────────────────────────────────────────────────────────
+
+    const onMessage = (event: MessageEvent) => {
+        const message = event.data;
+        if (!isBridgeMessage(message, channel)) return;
+
+        const name = message.event as keyof TEvents;
+        if (allowed && !allowed.has(name)) return;
+
+        // Our own emission coming back, or one we already delivered via
+        // another bridge.
+        if (message.origin === state.id || !markSeen(state, message.id)) return;
+
+        let args: unknown[];
+        try {
+            args = deserialize ? deserialize(name, message.args) : message.args;
+        } catch (error) {
+            report(`Failed to deserialize "${message.event}"`, error);
+            return;
+        }
+
+        const previous = state.inbound;
+        state.inbound = { message, via: bridgeId };
+        try {
+            emitter.emit(name, ...(args as TEvents[keyof TEvents]));
+        } finally {
+            state.inbound = previous;
+        }
+    };
+
+    const onMessageError = (event: MessageEvent) => {
+        report("Received a message that could not be deserialized", event);
+    };
+
+    transport.addEventListener("message", onMessage);
+    transport.addEventListener("messageerror", onMessageError);
+
+    // MessagePort queues messages until started when using addEventListener.
+    (transport as Partial<MessagePort>).start?.();
+
+    log("Bridge", "debug", "Bridge opened", { context: { channel } });
+
+    // ── Teardown ─────────────────────────────────────────────────────────────
+
+    let disposed = false;
+
+    const dispose = () => {
+        if (disposed) return;
+        disposed = true;
+
+        detach(state, link);
+        transport.removeEventListener("message", onMessage);
+        transport.removeEventListener("messageerror", onMessageError);
+        owned?.close();
+        unregister?.();
+
+        log("Bridge", "debug", "Bridge closed", { context: { channel } });
+    };
+
+    const unregister = scope?.onDispose(dispose);
+    return toDisposableFn(dispose);
+}
@@ -0,0 +1,263 @@
+/*
+ * BoneMarrow
+ * Copyright (c) 2025-present Karthick Raj
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ */
+
+import {
+    CacheInfo,
+    HttpCache,
+    HttpCacheEntry,
+    HttpCacheOptions,
+    HttpCacheStorage,
+} from "../types/index";
+import {log} from "./config";
+import {createId} from "./util";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// BoneMarrow HTTP Cache v1.2
+//
+// Response cache for fetchJson. Entries are keyed by URL — plus a hash of
+// the request headers a response commonly varies on, when any are sent —
+// and carry the validators (ETag / Last-Modified) the server sent, so an
+// expired entry is revalidated with a conditional request instead of
+// downloaded again.
+//
+// Freshness, per entry age:
+//   age < ttl                        → served, no request
+//   age < ttl + staleWhileRevalidate → served, revalidated in the background
+//   otherwise                        → conditional request; 304 serves the entry
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** What one round trip to the server produced. */
+export type CacheLoad =
+    | { notModified: true }
+    | { notModified: false; data: unknown; headers: Headers };
+
+interface CacheState {
+    storage: HttpCacheStorage;
+    ttl: number;
+    staleWhileRevalidate: number;
+    /** Keys with a background revalidation in flight. */
+    revalidating: Set<string>;
+}
+
+const cacheStates = new WeakMap<HttpCache, CacheState>();
+
+/**
+ * Request headers whose values split the cache: the same URL fetched with a
+ * different Authorization or Accept is a different entry.
+ */
+const VARY_HEADERS = ["Accept", "Accept-Language", "Authorization"];
+
+/**
+ * The default storage: a Map. Entries are kept as given — not copied — and
+ * live until invalidated or the storage is garbage collected.
+ */
+export function memoryCacheStorage(): HttpCacheStorage {
+    const entries = new Map<string, HttpCacheEntry>();
+    return {
+        get:    (key) => entries.get(key),
+        set:    (key, entry) => { entries.set(key, entry); },
+        delete: (key) => { entries.delete(key); },
+        keys:   () => entries.keys(),
+    };
+}
+
+/**
+ * Create a response cache to pass to fetchJson (options.cache) or to
+ * Model / Collection fetch() and autoRefresh().
+ *
+ * @example
+ * const cache = createHttpCache({ ttl: 10_000, staleWhileRevalidate: 60_000 });
+ *
+ * const users = await fetchJson<User[]>("/api/users", { scope, cache });
+ *
+ * // after a mutation
+ * await cache.invalidate((url) => url.startsWith("/api/users"));
+ */
+export function createHttpCache(options: HttpCacheOptions = {}): HttpCache {
+    const storage = options.storage ?? memoryCacheStorage();
+
+    const cache: HttpCache = {
+        async invalidate(keyOrPredicate) {
+            // A URL also drops the entries stored for it under other headers.
+            const matches = typeof keyOrPredicate === "string"
+                ? (key: string) => key === keyOrPredicate || key.startsWith(`${keyOrPredicate} `)
+                : keyOrPredicate;
+
+            // Copy first — deleting while iterating a live view is undefined
+            // behaviour for some storages.
+            for (const key of [...await storage.keys()]) {
+                if (matches(key)) await storage.delete(key);
+            }
+        },
+
+        async clear() {
+            for (const key of [...await storage.keys()]) {
+                await storage.delete(key);
+            }
+        },
+    };
+
+    cacheStates.set(cache, {
+        storage,
+        ttl:                  options.ttl ?? 0,
+        staleWhileRevalidate: options.staleWhileRevalidate ?? 0,
+        revalidating:         new Set(),
+    });
+
+    return cache;
+}
+
+/**
+ * The key a GET is cached under: the URL, followed by a hash of the
+ * VARY_HEADERS values when the request sends any. Hashed so credentials
+ * are not written into persistent storage as keys.
+ */
+export function cacheKey(url: string, headers?: HeadersInit): string {
+    const sent = new Headers(headers);
+    const values = VARY_HEADERS.map((name) => sent.get(name) ?? "");
+    if (values.every((value) => value === "")) return url;
+    return `${url} ${hashString(values.join("\n"))}`;
+}
+
+/**
+ * Answer a request from the cache, going to the server (through load) when
+ * the entry is missing or too old. load receives the conditional headers
+ * to send and reports a 304 as notModified.
+ *
+ * Background revalidation failures go to onBackgroundError — the caller
+ * already has its data.
+ */
+export async function cachedFetch(
+    cache: HttpCache,
+    key: string,
+    load: (validators: Record<string, string>) => Promise<CacheLoad>,
+    onBackgroundError: (error: unknown) => void
+): Promise<{ data: unknown; info: CacheInfo }> {
+    const state = cacheStates.get(cache);
+    if (!state) {
+        throw new Error("[Fetch] options.cache must be created with createHttpCache()");
+    }
+
+    const entry = await read(state, key);
+
+    if (entry) {
+        const age = Date.now() - entry.storedAt;
+
+        if (age < state.ttl) {
+            return { data: entry.data, info: { status: "hit", version: entry.version } };
+        }
+
+        if (age < state.ttl + state.staleWhileRevalidate) {
+            // One background revalidation per key at a time.
+            if (!state.revalidating.has(key)) {
+                state.revalidating.add(key);
+                revalidate(state, key, entry, load)
+                    .catch(onBackgroundError)
+                    .finally(() => state.revalidating.delete(key));
+            }
+            return { data: entry.data, info: { status: "stale", version: entry.version } };
+        }
+    }
+
+    return revalidate(state, key, entry, load);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Internal
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function revalidate(
+    state: CacheState,
+    key: string,
+    entry: HttpCacheEntry | undefined,
+    load: (validators: Record<string, string>) => Promise<CacheLoad>
+): Promise<{ data: unknown; info: CacheInfo }> {
+    const result = await load(entry ? validatorsOf(entry) : {});
+
+    if (result.notModified) {
+        // Only conditional requests should get a 304 — without an entry
+        // there is nothing to serve.
+        if (!entry) throw new Error(`[Fetch] ${key} answered 304 Not Modified to an unconditional request`);
+
+        await write(state, key, { ...entry, storedAt: Date.now() });
+        return { data: entry.data, info: { status: "revalidated", version: entry.version } };
+    }
+
+    const { data, headers } = result;
+    const fresh: HttpCacheEntry = {
+        data,
+        version:      createId(),
+        storedAt:     Date.now(),
+        etag:         headers.get("ETag") ?? undefined,
+        lastModified: headers.get("Last-Modified") ?? undefined,
+    };
+
+    if (/\bno-store\b/i.test(headers.get("Cache-Control") ?? "")) {
+        await state.storage.delete(key);
+    } else {
+        await write(state, key, fresh);
+    }
+
+    return { data, info: { status: "miss", version: fresh.version } };
+}
+
+function validatorsOf(entry: HttpCacheEntry): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry.etag)         headers["If-None-Match"]     = entry.etag;
+    if (entry.lastModified) headers["If-Modified-Since"] = entry.lastModified;
+    return headers;
+}
+
+/**
+ * A failed read (a corrupt or closed storage) is treated as a miss — the
+ * request goes to the server rather than failing.
+ */
+async function read(state: CacheState, key: string): Promise<HttpCacheEntry | undefined> {
+    try {
+        return await state.storage.get(key);
+    } catch (error) {
+        log("Fetch", "warn", `Failed to read cached ${key}`, { error, context: { key } });
+        return undefined;
+    }
+}
+
+/**
+ * A failed write (storage quota, a closed database) loses a cache entry,
+ * not the response — log it and carry on.
+ */
+async function write(state: CacheState, key: string, entry: HttpCacheEntry): Promise<void> {
+    try {
+        await state.storage.set(key, entry);
+    } catch (error) {
+        log("Fetch", "warn", `Failed to cache ${key}`, { error, context: { key } });
+    }
+}
+
+/** 53-bit string hash (cyrb53). Not cryptographic — it only has to spread. */
+function hashString(input: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < input.length; i++) {
+        const ch = input.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1  = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+    h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2  = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+    h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
@@ -0,0 +1,117 @@
+/*
+ * BoneMarrow
+ * Copyright (c) 2025-present Karthick Raj
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ */
+
+import {BoneMarrowConfig, LogLevel, LogRecord, Logger} from "../types/index";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// BoneMarrow Config v1.2
+//
+// The one global configuration point. Every module writes its diagnostics
+// through log() here instead of calling console directly, so an app can
+// route them to its own pipeline — or silence them in tests — in one place.
+//
+// Only configure() is public. log() is internal to the library.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const consoleLogger: Logger = {
+    log(record: LogRecord): void {
+        const text = `[${record.module}] ${record.message}`;
+        const extra: unknown[] = [];
+        if (record.error !== undefined) extra.push(record.error);
+        if (record.context !== undefined) extra.push(record.context);
+
+        switch (record.level) {
+            case "debug": console.debug(text, ...extra); break;
+            case "info":  console.info(text, ...extra);  break;
+            case "warn":  console.warn(text, ...extra);  break;
+            case "error": console.error(text, ...extra); break;
+        }
+    },
+};
+
+const config: {
+    logger: Logger;
+    onError: BoneMarrowConfig["onError"];
+    debug: boolean;
+} = {
+    logger:  consoleLogger,
+    onError: undefined,
+    debug:   false,
+};
+
+/**
+ * Configure library-wide diagnostics.
+ *
+ * Merges with the current configuration — omitted keys are left as they
+ * are. Pass `logger: undefined` explicitly to restore the console logger.
+ *
+ * @example
+ * // Send diagnostics to your pipeline
+ * configure({
+ *   logger:  { log: (record) => pipeline.send(record) },
+ *   onError: (error, record) => telemetry.capture(error, record),
+ * });
+ *
+ * @example
+ * // Silence everything in tests
+ * configure({ logger: { log() {} } });
+ */
+export function configure(options: BoneMarrowConfig): void {
+    if ("logger" in options) config.logger = options.logger ?? consoleLogger;
+    if ("onError" in options) config.onError = options.onError;
+    if ("debug" in options) config.debug = options.debug ?? false;
+}
+
+/** Library-wide debug default. Read by Scope and TypedEmitter at creation. */
+export function isDebugEnabled(): boolean {
+    return config.debug;
+}
+
+/**
+ * Write a structured record. Debug records are dropped unless debug is
+ * configured. Error records carrying an error also reach onError.
+ *
+ * Never throws — a failing logger must not break the code that logged.
+ */
+export function log(
+    module: string,
+    level: LogLevel,
+    message: string,
+    details?: { error?: unknown; context?: Record<string, unknown> }
+): void {
+    if (level === "debug" && !config.debug) return;
+
+    const record: LogRecord = {
+        module,
+        level,
+        message,
+        error:   details?.error,
+        context: details?.context,
+    };
+
+    try {
+        config.logger.log(record);
+    } catch {
+        // Nowhere left to report it.
+    }
+
+    if (level === "error" && details && "error" in details && config.onError) {
+        try {
+            config.onError(details.error, record);
+        } catch {
+            // Same — the hook is the last stop.
+        }
+    }
+}
@@ -0,0 +1,38 @@
+/*
+ * BoneMarrow
+ * Copyright (c) 2025-present Karthick Raj
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ */
+
+import {DisposableFn, DisposeFn} from "../types/index";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Explicit resource management interop (internal)
+//
+// Symbol.dispose / Symbol.asyncDispose where the runtime defines them. On
+// older runtimes fall back to the registry symbols that polyfills (core-js)
+// install, so `using` keeps working once a polyfill is loaded. Typed as the
+// well-known symbols so classes keyed by them satisfy DisposableLike.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const disposeSymbol: typeof Symbol.dispose =
+    Symbol.dispose ?? (Symbol.for("Symbol.dispose") as typeof Symbol.dispose);
+
+export const asyncDisposeSymbol: typeof Symbol.asyncDispose =
+    Symbol.asyncDispose ?? (Symbol.for("Symbol.asyncDispose") as typeof Symbol.asyncDispose);
+
+/** Make a DisposeFn usable with `using` as well as by calling it. */
+export function toDisposableFn(fn: DisposeFn): DisposableFn {
+    const disposable = fn as DisposableFn;
+    disposable[disposeSymbol] = fn;
+    return disposable;
+}
@@ -13,7 +13,24 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  */
 
-import {DisposeFn, EmitterLogger, Scope} from "../types/index";
+import {
+    CancelableListenerOptions,
+    DisposableFn,
+    DisposeFn,
+    EmitAsyncOptions,
+    EmitInfo,
+    EmitterLogger,
+    EventControl,
+    ListenerOptions,
+    ReplayPolicy,
+    Scope,
+    StreamOptions,
+} from "../types/index";
+import {abortRejection, CompositeError} from "./async";
+import {isDebugEnabled, log} from "./config";
+import {toDisposableFn} from "./disposable";
+import {rateLimit, toListenerOptions} from "./subscribe";
+import {now} from "./util";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // BoneMarrow Emitter v1.2
@@ -27,21 +44,176 @@ import {DisposeFn, EmitterLogger, Scope} from "../types/index";
 // If you need a full event bus, use a dedicated library.
 // ─────────────────────────────────────────────────────────────────────────────
 
-const consoleLogger: EmitterLogger = {
-    log:   (msg: string)       => console.log(msg),
-    warn:  (msg: string)       => console.warn(msg),
-    error: (msg: string, err: unknown)  => console.error(msg, err),
+// Default EmitterLogger — forwards to the library-wide logger from
+// configure(). Messages keep their "[Emitter]" prefix for custom
+// EmitterLoggers; here it becomes the record's module instead.
+// Debug output is already gated by the emitter's own debug flag, so it is
+// written at info level rather than being filtered a second time.
+const stripPrefix = (msg: string): string => msg.replace(/^\[Emitter\] /, "").replace(/:$/, "");
+
+const configuredLogger: EmitterLogger = {
+    log:   (msg: string)               => log("Emitter", "info", stripPrefix(msg)),
+    warn:  (msg: string)               => log("Emitter", "warn", stripPrefix(msg)),
+    error: (msg: string, err: unknown) => log("Emitter", "error", stripPrefix(msg), { error: err }),
 };
 
+/**
+ * A registered handler. Stored as its own entry (not the bare function) so
+ * registering the same function twice yields two independent subscriptions,
+ * and so the owning scope travels with the handler for error routing.
+ */
+interface Listener {
+    /** What emissions call — the handler, or its rate-limit wrapper. */
+    fn: (...args: any[]) => unknown;
+    /** The handler's own name, for timings. */
+    name: string;
+    scope?: Scope;
+    priority: number;
+    /** Registered with onCancelable() — gets the EventControl as its last argument. */
+    control: boolean;
+    /** Drops a pending debounce / throttle / batch call. */
+    cancel?: DisposeFn;
+}
+
+/**
+ * Cancellation flags for one emission. emitAsync() gives each handler its
+ * own EventControl (its own signal) over the same shared state.
+ */
+interface ControlState {
+    defaultPrevented: boolean;
+    propagationStopped: boolean;
+}
+
+function createEventControl(
+    event: string,
+    state: ControlState = { defaultPrevented: false, propagationStopped: false },
+    signal?: AbortSignal
+): EventControl {
+    return {
+        event,
+        signal,
+        get defaultPrevented()   { return state.defaultPrevented; },
+        get propagationStopped() { return state.propagationStopped; },
+        preventDefault()  { state.defaultPrevented = true; },
+        stopPropagation() { state.propagationStopped = true; },
+    };
+}
+
+/**
+ * Recent emissions of one event, kept for late subscribers.
+ * Oldest first, at most `size` entries.
+ */
+interface ReplayBuffer {
+    size: number;
+    entries: unknown[][];
+}
+
+function replaySize(policy: ReplayPolicy): number {
+    return policy === "last" ? 1 : Math.max(0, Math.floor(policy));
+}
+
+/**
+ * A pattern subscription. Compiled once at registration.
+ */
+interface PatternEntry {
+    regex: RegExp;
+    listeners: Set<Listener>;
+}
+
+// ── Pattern types ────────────────────────────────────────────────────────────
+
+/** Turn "item:*" into the template literal type `item:${string}`. */
+type PatternTemplate<P extends string> =
+    P extends `${infer Head}*${infer Tail}`
+        ? `${Head}${string}${PatternTemplate<Tail>}`
+        : P;
+
+/**
+ * Event keys matched by a wildcard pattern. For untyped emitters (string
+ * keys) every key matches, since nothing narrower is known.
+ *
+ * @example
+ * type E = { "item:add": [id: number]; "item:remove": [id: number]; reset: [] };
+ * type M = PatternEvents<E, "item:*">; // "item:add" | "item:remove"
+ */
+export type PatternEvents<TEvents, P extends string> =
+    string extends keyof TEvents
+        ? keyof TEvents & string
+        : Extract<keyof TEvents, PatternTemplate<P>>;
+
+/**
+ * Arguments for onAny() / onPattern() handlers: the event name followed by
+ * that event's own arguments, as a union discriminated on the name.
+ * Checking `event` narrows the rest.
+ */
+export type EventTuple<TEvents extends Record<string, unknown[]>, K extends keyof TEvents> = {
+    [E in K]: [event: E, ...args: TEvents[E]];
+}[K];
+
+/**
+ * Intercepts emissions before any handler runs. Call next() to continue —
+ * optionally with replacement args — or skip it to drop the emission.
+ *
+ * next() returns what the emission returns: a boolean (cancelled) for emit(),
+ * a Promise of one for emitAsync(). For emit(), next() must be called
+ * synchronously. info.timings is filled in once next() has completed.
+ */
+export type EmitterMiddleware<TEvents extends Record<string, unknown[]>> = (
+    event: keyof TEvents,
+    args: unknown[],
+    next: (args?: unknown[]) => boolean | Promise<boolean>,
+    info: EmitInfo
+) => void | Promise<void>;
+
+/** onCancelable() handler arguments: the emitted args followed by the EventControl. */
+export type WithControl<A extends unknown[]> = [...A, EventControl];
+
+/**
+ * Rejection for an async emission, or one of its handlers, that ran past
+ * its timeout. Not an AbortError — isAbortError() is false, so a slow
+ * handler is never mistaken for a cancelled emission. Named "TimeoutError",
+ * like the fetch utility's.
+ */
+export class EmitTimeoutError extends Error {
+    readonly event: string;
+    /** The limit that was hit (ms). */
+    readonly timeout: number;
+    /** True if one handler ran past handlerTimeout, false if the whole emission ran past timeout. */
+    readonly handler: boolean;
+
+    constructor(event: string, timeout: number, handler: boolean) {
+        super(handler
+            ? `[Emitter] Handler for "${event}" timed out after ${timeout}ms`
+            : `[Emitter] "${event}" timed out after ${timeout}ms`);
+        this.name    = "TimeoutError";
+        this.event   = event;
+        this.timeout = timeout;
+        this.handler = handler;
+    }
+}
+
+/** Compile a "*" wildcard pattern. Everything else matches literally. */
+function compilePattern(pattern: string): RegExp {
+    const source = pattern
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*");
+    return new RegExp(`^${source}$`);
+}
+
 /**
  * Type-safe event emitter with automatic cleanup and error isolation.
  *
  * @version 1.2.0
  *
  * Designed for BoneMarrow lifecycle events. Stays predictable:
+ * - Handlers run by priority, then registration order
+ * - onCancelable() handlers get an EventControl as their last argument;
+ *   emit() returns true if one called preventDefault()
  * - Sync emit isolates handler errors
- * - Async emit surfaces all rejections via AggregateError (ES2021+)
+ * - Async emit surfaces rejections via CompositeError (works on es2019)
  * - Scope integration handles automatic cleanup
+ * - Opt-in replay lets late subscribers catch up on past emissions
  * - Debug mode includes leak detection
  *
  * @example
@@ -54,77 +226,224 @@ const consoleLogger: EmitterLogger = {
  * emitter.on("change", (data) => console.log(data));
  */
 export class TypedEmitter<TEvents extends Record<string, unknown[]>> {
-    private events = new Map<keyof TEvents, Set<(...args: any[]) => void>>();
+    private events = new Map<keyof TEvents, Set<Listener>>();
+    private patterns = new Map<string, PatternEntry>();
+    private anyListeners = new Set<Listener>();
     private debugMode: boolean;
     private logger: EmitterLogger;
     private readonly maxListeners: number;
+    private readonly asyncOptions: EmitAsyncOptions;
+    private replayBuffers = new Map<keyof TEvents, ReplayBuffer>();
+    // Open stream() iterators → their event. off() / clear() end them.
+    private streams = new Map<() => void, keyof TEvents>();
+    private middleware: Array<EmitterMiddleware<TEvents>> = [];
 
     /**
      * @param options.debug        - Enable debug/leak logging. Dev only — disable in production.
-     * @param options.logger       - Custom logger. Defaults to console.
+     *                               Defaults to the configure() debug setting.
+     * @param options.logger       - Custom logger. Defaults to the configure() logger.
      * @param options.maxListeners - Warn threshold per event (dev only). Default: 50.
+     * @param options.asyncOptions - Defaults for emitAsync(). Per-call options
+     *                               passed to emitAsyncWith() override them.
+     * @param options.replay       - Per-event replay policy. See setReplay().
      */
     constructor(options?: {
         debug?: boolean;
         logger?: EmitterLogger;
         maxListeners?: number;
+        asyncOptions?: EmitAsyncOptions;
+        replay?: { [K in keyof TEvents]?: ReplayPolicy };
     }) {
-        this.debugMode    = options?.debug        ?? false;
-        this.logger       = options?.logger       ?? consoleLogger;
+        this.debugMode    = options?.debug        ?? isDebugEnabled();
+        this.logger       = options?.logger       ?? configuredLogger;
         this.maxListeners = options?.maxListeners ?? 50;
+        this.asyncOptions = options?.asyncOptions ?? {};
+
+        for (const event of Object.keys(options?.replay ?? {}) as Array<keyof TEvents>) {
+            this.setReplay(event, options!.replay![event]!);
+        }
+    }
+
+    /**
+     * Keep recent emissions of event for late subscribers. A new on(),
+     * once() or onceAsync() subscriber is called immediately with each
+     * buffered emission, oldest first — so "ready" / "loaded" style events
+     * are never missed.
+     *
+     * "last" keeps only the latest emission; a number keeps that many.
+     * false turns replay off and drops the buffer. Shrinking the policy
+     * keeps the newest entries.
+     *
+     * Only exact subscriptions replay — onAny() and onPattern() do not.
+     *
+     * @example
+     * emitter.setReplay("ready", "last");
+     * emitter.emit("ready", config);
+     * const [cfg] = await emitter.onceAsync("ready"); // resolves at once
+     */
+    setReplay<K extends keyof TEvents>(event: K, policy: ReplayPolicy | false): void {
+        if (policy === false) {
+            this.replayBuffers.delete(event);
+            return;
+        }
+
+        const size = replaySize(policy);
+        const buffer = this.replayBuffers.get(event);
+
+        if (buffer) {
+            buffer.size = size;
+            buffer.entries = size === 0 ? [] : buffer.entries.slice(-size);
+        } else {
+            this.replayBuffers.set(event, { size, entries: [] });
+        }
+    }
+
+    /**
+     * Drop buffered emissions — for one event, or for all events if omitted.
+     * The replay policy stays in place; new emissions are buffered again.
+     */
+    clearReplay<K extends keyof TEvents>(event?: K): void {
+        if (event === undefined) {
+            this.replayBuffers.forEach((buffer) => { buffer.entries = []; });
+            return;
+        }
+
+        const buffer = this.replayBuffers.get(event);
+        if (buffer) buffer.entries = [];
+    }
+
+    /** Remember an emission if the event has a replay policy. */
+    private record(event: keyof TEvents, args: unknown[]): void {
+        const buffer = this.replayBuffers.get(event);
+        if (!buffer || buffer.size === 0) return;
+
+        buffer.entries.push(args);
+        if (buffer.entries.length > buffer.size) buffer.entries.shift();
     }
 
     /**
      * Register an event listener.
      *
-     * Returns a DisposeFn that removes the listener when called.
-     * Pass a Scope to auto-remove when the scope is disposed.
+     * Returns a DisposeFn that removes the listener when called — or at the
+     * end of the block with `using`. Pass a Scope (or `{ scope }`) to
+     * auto-remove when the scope is disposed.
+     *
+     * @example
+     * emitter.on("change", render, { scope, priority: 10 });
      */
     on<K extends keyof TEvents>(
         event: K,
         fn: (...args: TEvents[K]) => void,
-        scope?: Scope
-    ): DisposeFn {
+        options?: Scope | ListenerOptions<TEvents[K]>
+    ): DisposableFn {
+        return this.subscribe(event, fn, options, false);
+    }
+
+    /**
+     * Like on(), but fn also receives an EventControl after the event's
+     * arguments — to veto the emission (preventDefault(): emit() returns
+     * true) or stop later handlers (stopPropagation()). Under emitAsync()
+     * control.signal aborts when the emission is cancelled.
+     *
+     * Takes no rate limits: a deferred call could no longer cancel anything.
+     *
+     * @example
+     * emitter.onCancelable("beforeRemove", (item, ev) => {
+     *   if (item.locked) ev.preventDefault();
+     * }, { scope, priority: 10 });
+     */
+    onCancelable<K extends keyof TEvents>(
+        event: K,
+        fn: (...args: WithControl<TEvents[K]>) => void,
+        options?: Scope | CancelableListenerOptions
+    ): DisposableFn {
+        return this.subscribe(event, fn, options, true);
+    }
+
+    /** on() and onCancelable(): add an exact listener and replay to it. */
+    private subscribe<K extends keyof TEvents>(
+        event: K,
+        fn: (...args: any[]) => void,
+        options: Scope | ListenerOptions<TEvents[K]> | undefined,
+        control: boolean
+    ): DisposableFn {
         let set = this.events.get(event);
         if (!set) {
             set = new Set();
             this.events.set(event, set);
         }
 
-        set.add(fn);
+        const listeners = set;
+        let removed = false;
 
-        if (this.debugMode) {
-            this.logger.log(
-                `[Emitter] Listener added for "${String(event)}" (total: ${set.size})`
-            );
-            if (set.size > this.maxListeners) {
-                this.logger.warn(
-                    `[Emitter] Possible listener leak: "${String(event)}" has ${set.size} listeners (max: ${this.maxListeners})`
-                );
+        const { listener, cleanup } = this.addListener(listeners, fn, String(event), options, control, () => {
+            removed = true;
+            // Only drop the entry if it is still ours — off() may have
+            // replaced it since.
+            if (listeners.size === 0 && this.events.get(event) === listeners) {
+                this.events.delete(event);
             }
-        }
+        });
 
-        let disposed = false;
+        // Catch up on buffered emissions. Stops early if the handler removes
+        // itself (e.g. once()).
+        const entries = this.replayBuffers.get(event)?.entries ?? [];
+        for (const args of [...entries]) {
+            if (removed) break;
+            try {
+                listener.fn(...this.argsFor(listener, args, createEventControl(String(event))));
+            } catch (error) {
+                this.reportHandlerError(listener.scope, String(event), error);
+            }
+        }
 
-        const cleanup = () => {
-            if (disposed) return;
-            disposed = true;
+        return cleanup;
+    }
 
-            set!.delete(fn);
+    /**
+     * Listen to every event. fn receives the event name, then its arguments.
+     * Runs after exact and pattern listeners for the same emission.
+     *
+     * @example
+     * emitter.onAny((event, ...args) => log(event, args), scope);
+     */
+    onAny(
+        fn: (...args: EventTuple<TEvents, keyof TEvents>) => void,
+        options?: Scope | ListenerOptions
+    ): DisposableFn {
+        return this.addListener(this.anyListeners, fn, "*", options, false, () => {}).cleanup;
+    }
 
-            if (set!.size === 0) {
-                this.events.delete(event);
-            }
+    /**
+     * Listen to every event whose name matches a wildcard pattern, where "*"
+     * matches any run of characters (including ":" separators).
+     * fn receives the event name, then its arguments — typed as the union of
+     * matching events.
+     *
+     * Pattern listeners run after exact listeners, before onAny() listeners.
+     *
+     * @example
+     * emitter.onPattern("item:*", (event, item) => {
+     *   if (event === "item:add") render(item);
+     * }, scope);
+     */
+    onPattern<P extends string>(
+        pattern: P,
+        fn: (...args: EventTuple<TEvents, PatternEvents<TEvents, P>>) => void,
+        options?: Scope | ListenerOptions
+    ): DisposableFn {
+        let entry = this.patterns.get(pattern);
+        if (!entry) {
+            entry = { regex: compilePattern(pattern), listeners: new Set() };
+            this.patterns.set(pattern, entry);
+        }
 
-            if (this.debugMode) {
-                this.logger.log(
-                    `[Emitter] Listener removed for "${String(event)}" (remaining: ${set!.size})`
-                );
+        const listeners = entry.listeners;
+        return this.addListener(listeners, fn, pattern, options, false, () => {
+            if (listeners.size === 0 && this.patterns.get(pattern)?.listeners === listeners) {
+                this.patterns.delete(pattern);
             }
-        };
-
-        scope?.onDispose(cleanup);
-        return cleanup;
+        }).cleanup;
     }
 
     /**
@@ -137,122 +456,649 @@ export class TypedEmitter<TEvents extends Record<string, unknown[]>> {
     once<K extends keyof TEvents>(
         event: K,
         fn: (...args: TEvents[K]) => void,
-        scope?: Scope
-    ): DisposeFn {
+        options?: Scope | ListenerOptions<TEvents[K]>
+    ): DisposableFn {
+        // A replayed emission fires the wrapper inside on(), before cleanup
+        // is assigned — fired covers that window.
+        let fired = false;
+        let cleanup: DisposableFn | undefined;
+
         const wrapper = (...args: TEvents[K]) => {
-            cleanup();
+            if (fired) return;
+            fired = true;
+            cleanup?.();
             fn(...args);
         };
 
-        const cleanup = this.on(event, wrapper, scope);
+        cleanup = this.on(event, wrapper, options);
+        if (fired) cleanup();
         return cleanup;
     }
 
     /**
      * Returns a Promise that resolves with the args of the next emission.
      *
-     * ⚠️ Scope disposal caveat: if the provided scope is disposed before the
-     * event fires, the Promise will never resolve or reject — it hangs silently.
-     * If your scope may be short-lived, either:
-     *   - Don't pass a scope, and manage cleanup manually
-     *   - Or set a timeout externally: `Promise.race([emitter.onceAsync(...), timeout])`
+     * If the scope is disposed first, the Promise rejects with the scope's
+     * abort reason (a ScopeAbortError) instead of waiting forever.
      *
      * @example
-     * const [data] = await emitter.onceAsync("ready");
+     * const [data] = await emitter.onceAsync("ready", scope);
      */
     onceAsync<K extends keyof TEvents>(
         event: K,
         scope?: Scope
     ): Promise<TEvents[K]> {
-        return new Promise<TEvents[K]>((resolve) => {
-            this.once(event, (...args: TEvents[K]) => resolve(args), scope);
+        return new Promise<TEvents[K]>((resolve, reject) => {
+            // Registered before once() so a replayed emission can unregister it.
+            const unregister = scope?.onDispose(() => reject(scope.signal.reason));
+
+            this.once(
+                event,
+                (...args) => {
+                    unregister?.();
+                    resolve(args);
+                },
+                scope
+            );
         });
     }
 
+    /**
+     * Iterate over emissions of event with `for await`. Each value is the
+     * emission's argument tuple.
+     *
+     * Subscribes immediately, so nothing emitted between stream() and the
+     * first read is missed. Emissions arriving while the consumer is busy
+     * are buffered (bufferSize, overflow). The stream ends — after the
+     * buffer drains — when the scope is disposed, or when off(event) or
+     * clear() removes its listener. Breaking out of the loop unsubscribes.
+     *
+     * One consumer per stream: call stream() again for another.
+     *
+     * @example
+     * for await (const [patch] of emitter.stream("change", { scope })) {
+     *   render(patch);
+     * }
+     */
+    stream<K extends keyof TEvents>(
+        event: K,
+        options: StreamOptions = {}
+    ): AsyncIterableIterator<TEvents[K]> {
+        const { scope, bufferSize = 100, overflow = "drop-oldest" } = options;
+        const name = String(event);
+
+        const queue: Array<TEvents[K]> = [];
+        const readers: Array<{
+            resolve: (result: IteratorResult<TEvents[K]>) => void;
+            reject: (error: unknown) => void;
+        }> = [];
+
+        let ended = false;
+        let failure: { error: unknown } | undefined;
+        let unsubscribe: DisposableFn | undefined;
+        let unregister: DisposeFn | undefined;
+
+        const end = () => {
+            if (ended) return;
+            ended = true;
+
+            this.streams.delete(end);
+            unsubscribe?.();
+            unregister?.();
+
+            for (const reader of readers.splice(0)) {
+                if (failure) reader.reject(failure.error);
+                else reader.resolve({ value: undefined, done: true });
+            }
+        };
+
+        const push = (args: TEvents[K]) => {
+            const reader = readers.shift();
+            if (reader) {
+                reader.resolve({ value: args, done: false });
+                return;
+            }
+
+            if (queue.length >= bufferSize) {
+                if (this.debugMode) {
+                    this.logger.warn(
+                        `[Emitter] stream("${name}") buffer full (${bufferSize}), overflow: ${overflow}`
+                    );
+                }
+
+                if (overflow === "drop-newest") return;
+                if (overflow === "error") {
+                    queue.length = 0;
+                    failure = {
+                        error: new Error(`[Emitter] stream("${name}") buffer overflow (bufferSize: ${bufferSize})`),
+                    };
+                    end();
+                    return;
+                }
+                queue.shift();
+            }
+
+            queue.push(args);
+        };
+
+        this.streams.set(end, event);
+        unsubscribe = this.on(
+            event,
+            (...args) => {
+                if (!ended) push(args);
+            },
+            scope
+        );
+        // Replay can overflow the buffer and end the stream inside on().
+        if (ended) unsubscribe();
+        unregister = scope?.onDispose(end);
+
+        const iterator: AsyncIterableIterator<TEvents[K]> = {
+            next: () => {
+                if (queue.length > 0) {
+                    return Promise.resolve({ value: queue.shift()!, done: false });
+                }
+                if (failure) {
+                    // Reported once; later reads just see the end.
+                    const { error } = failure;
+                    failure = undefined;
+                    return Promise.reject(error);
+                }
+                if (ended) {
+                    return Promise.resolve({ value: undefined, done: true });
+                }
+                return new Promise((resolve, reject) => readers.push({ resolve, reject }));
+            },
+
+            return: () => {
+                queue.length = 0;
+                failure = undefined;
+                end();
+                return Promise.resolve({ value: undefined, done: true });
+            },
+
+            [Symbol.asyncIterator]() {
+                return iterator;
+            },
+        };
+
+        return iterator;
+    }
+
+    /**
+     * Add a listener to one bucket (exact event, pattern, or any) and return
+     * it with its DisposeFn. onEmpty runs after removal so the caller can
+     * drop an empty bucket.
+     */
+    private addListener(
+        set: Set<Listener>,
+        fn: (...args: any[]) => unknown,
+        label: string,
+        options: Scope | ListenerOptions<any> | undefined,
+        control: boolean,
+        onEmpty: () => void
+    ): { listener: Listener; cleanup: DisposableFn } {
+        const resolved = toListenerOptions<ListenerOptions<any>>(options);
+        const { scope, priority = 0 } = resolved;
+
+        const limited = rateLimit(
+            fn,
+            resolved,
+            (error) => this.reportHandlerError(scope, label, error),
+            scope
+        );
+
+        const listener: Listener = {
+            fn:     limited?.fn ?? fn,
+            name:   fn.name || "anonymous",
+            scope,
+            priority,
+            control,
+            cancel: limited?.cancel,
+        };
+        set.add(listener);
+
+        if (this.debugMode) {
+            this.logger.log(
+                `[Emitter] Listener added for "${label}" (total: ${set.size})`
+            );
+            if (set.size > this.maxListeners) {
+                this.logger.warn(
+                    `[Emitter] Possible listener leak: "${label}" has ${set.size} listeners (max: ${this.maxListeners})`
+                );
+            }
+        }
+
+        let disposed = false;
+
+        const cleanup = () => {
+            if (disposed) return;
+            disposed = true;
+
+            set.delete(listener);
+            listener.cancel?.();
+            onEmpty();
+
+            if (this.debugMode) {
+                this.logger.log(
+                    `[Emitter] Listener removed for "${label}" (remaining: ${set.size})`
+                );
+            }
+        };
+
+        scope?.onDispose(cleanup);
+        return { listener, cleanup: toDisposableFn(cleanup) };
+    }
+
+    /** What a listener is called with: the args, plus the control if it asked for one. */
+    private argsFor(listener: Listener, args: unknown[], control: EventControl): unknown[] {
+        return listener.control ? [...args, control] : args;
+    }
+
+    /** Drop pending rate-limited calls of listeners removed in bulk. */
+    private cancelPending(listeners: Iterable<Listener> | undefined): void {
+        for (const listener of listeners ?? []) listener.cancel?.();
+    }
+
+    /**
+     * Every listener that receives an emission of event, in call order:
+     * highest priority first; within a priority, exact listeners, then
+     * pattern listeners, then onAny() listeners.
+     * withName marks listeners that take the event name as first argument.
+     * Snapshotted, so handlers may subscribe / unsubscribe while it runs.
+     */
+    private receiversOf(event: keyof TEvents): Array<{ listener: Listener; withName: boolean }> {
+        const receivers: Array<{ listener: Listener; withName: boolean }> = [];
+
+        for (const listener of this.events.get(event) ?? []) {
+            receivers.push({ listener, withName: false });
+        }
+
+        const name = String(event);
+        for (const entry of this.patterns.values()) {
+            if (!entry.regex.test(name)) continue;
+            for (const listener of entry.listeners) {
+                receivers.push({ listener, withName: true });
+            }
+        }
+
+        for (const listener of this.anyListeners) {
+            receivers.push({ listener, withName: true });
+        }
+
+        // Array.prototype.sort is stable (ES2019), so equal priorities keep
+        // the order built above.
+        if (receivers.some(({ listener }) => listener.priority !== 0)) {
+            receivers.sort((a, b) => b.listener.priority - a.listener.priority);
+        }
+
+        return receivers;
+    }
+
     /**
      * Emit an event synchronously to all registered listeners.
      *
      * Errors are isolated per handler — one failure does not stop others.
+     * A failing handler registered with a Scope is reported to that scope's
+     * error boundary (see scope.onError); otherwise it goes to the logger.
      * If you need to know when handlers have finished async work, use emitAsync().
+     *
+     * Returns true if a handler called preventDefault() — the event was
+     * cancelled. A handler that calls stopPropagation() is the last to run.
+     *
+     * @example
+     * if (emitter.emit("beforeRemove", item)) return; // vetoed
      */
-    emit<K extends keyof TEvents>(event: K, ...args: TEvents[K]): void {
-        const handlers = this.events.get(event);
+    emit<K extends keyof TEvents>(event: K, ...args: TEvents[K]): boolean {
+        if (this.middleware.length === 0) return this.dispatch(event, args);
+
+        const info: EmitInfo = { mode: "sync", timings: [] };
+        const chain = this.middleware;
+
+        const run = (index: number, current: unknown[]): boolean => {
+            const middleware = chain[index];
+            if (!middleware) return this.dispatch(event, current as TEvents[K], info);
+
+            let forwarded: { result: boolean } | undefined;
+            const next = (nextArgs: unknown[] = current) => {
+                forwarded ??= { result: run(index + 1, nextArgs) };
+                return forwarded.result;
+            };
+
+            try {
+                middleware(event, current, next, info);
+            } catch (error) {
+                // emit() never throws. A broken middleware is skipped rather
+                // than silently dropping the emission.
+                this.logger.error(`[Emitter] Error in middleware for "${String(event)}":`, error);
+                return next();
+            }
 
-        if (!handlers || handlers.size === 0) {
+            if (!forwarded && this.debugMode) {
+                this.logger.log(`[Emitter] "${String(event)}" dropped by middleware`);
+            }
+            return forwarded ? forwarded.result : false;
+        };
+
+        return run(0, args);
+    }
+
+    /**
+     * Register middleware that sees every emission — emit() and emitAsync()
+     * — before any handler runs, in registration order. It can observe,
+     * transform (next(newArgs)) or drop (no next()) the emission.
+     *
+     * Returns a DisposeFn that removes it; also removed with the scope.
+     *
+     * @example
+     * emitter.use(async (event, args, next, info) => {
+     *   const cancelled = await next();
+     *   trace(event, args, info.timings, cancelled);
+     * }, scope);
+     */
+    use(middleware: EmitterMiddleware<TEvents>, scope?: Scope): DisposableFn {
+        // Copy-on-write, so removal during an emission does not shift the
+        // chain that emission is walking.
+        this.middleware = [...this.middleware, middleware];
+
+        let disposed = false;
+        const remove = () => {
+            if (disposed) return;
+            disposed = true;
+            this.middleware = this.middleware.filter((m) => m !== middleware);
+        };
+
+        scope?.onDispose(remove);
+        return toDisposableFn(remove);
+    }
+
+    /** Run the handlers for an emission that got past the middleware. */
+    private dispatch<K extends keyof TEvents>(event: K, args: TEvents[K], info?: EmitInfo): boolean {
+        this.record(event, args);
+        const receivers = this.receiversOf(event);
+
+        if (receivers.length === 0) {
             if (this.debugMode) {
                 this.logger.log(`[Emitter] No listeners for "${String(event)}"`);
             }
-            return;
+            return false;
         }
 
         if (this.debugMode) {
             this.logger.log(
-                `[Emitter] Emitting "${String(event)}" to ${handlers.size} listener(s)`
+                `[Emitter] Emitting "${String(event)}" to ${receivers.length} listener(s)`
             );
         }
 
-        for (const fn of [...handlers]) {
+        const control = createEventControl(String(event));
+
+        for (const { listener, withName } of receivers) {
+            if (control.propagationStopped) {
+                this.logPropagationStopped(control.event);
+                break;
+            }
+
+            const started = info && now();
+            let failed = false;
+
             try {
-                fn(...args);
+                const callArgs = this.argsFor(listener, args, control);
+                if (withName) listener.fn(event, ...callArgs);
+                else listener.fn(...callArgs);
             } catch (error) {
-                this.logger.error(
-                    `[Emitter] Error in handler for "${String(event)}":`,
-                    error
-                );
+                failed = true;
+                this.reportHandlerError(listener.scope, String(event), error);
             }
+
+            if (info) {
+                info.timings.push({
+                    handler:  listener.name,
+                    duration: now() - started!,
+                    failed,
+                });
+            }
+        }
+
+        return control.defaultPrevented;
+    }
+
+    /**
+     * Handlers registered with a scope report to its error boundary first.
+     * The logger is the fallback.
+     */
+    private reportHandlerError(scope: Scope | undefined, event: string, error: unknown): void {
+        if (!scope?.reportError(error, "emitter")) {
+            this.logger.error(`[Emitter] Error in handler for "${event}":`, error);
         }
     }
 
     /**
-     * Emit an event and await all async handlers.
+     * Emit an event and await all async handlers, using the emitter's
+     * default asyncOptions. See emitAsyncWith() for per-call options.
      *
-     * All handlers always run regardless of individual failures.
-     * Any rejections are collected and re-thrown together as an AggregateError.
+     * By default every handler runs, in parallel, regardless of individual
+     * failures; any rejections are collected and re-thrown together as a
+     * CompositeError. Resolves to true if any handler called preventDefault().
      *
      * Use this for lifecycle hooks where async work must complete before
      * continuing (e.g. save hooks, pre-unmount cleanup).
      *
-     * ⚠️ Requires ES2021+ (AggregateError). Check your tsconfig target.
-     *    If targeting older environments, add a polyfill.
-     *
      * @example
      * await emitter.emitAsync("beforeSave", payload);
      */
-    async emitAsync<K extends keyof TEvents>(
+    emitAsync<K extends keyof TEvents>(
         event: K,
         ...args: TEvents[K]
-    ): Promise<void> {
-        const handlers = this.events.get(event);
+    ): Promise<boolean> {
+        return this.emitAsyncWith(event, args, this.asyncOptions);
+    }
+
+    /**
+     * emitAsync() with explicit options, merged over the emitter's defaults.
+     *
+     * - mode: "parallel" starts every handler at once; stopPropagation() then
+     *   only skips the rest if called before the handler's first await.
+     *   "serial" awaits each handler before starting the next.
+     * - handlerTimeout / timeout: fail one handler / abort the whole emission
+     *   after that many ms, with an EmitTimeoutError.
+     * - scope / signal: abort the emission when either aborts.
+     * - failFast: reject on the first failure and abort the rest.
+     *
+     * onCancelable() handlers get an AbortSignal on their EventControl
+     * (control.signal) that aborts when their work is no longer wanted.
+     *
+     * Rejects with the abort reason if the emission is aborted (scope, signal,
+     * overall timeout), or with a CompositeError of handler failures — one
+     * with fail-fast, all of them otherwise.
+     *
+     * @example
+     * await emitter.emitAsyncWith("beforeSave", [payload], {
+     *   mode: "serial",
+     *   handlerTimeout: 2000,
+     *   scope,
+     * });
+     */
+    async emitAsyncWith<K extends keyof TEvents>(
+        event: K,
+        args: TEvents[K],
+        options: EmitAsyncOptions = {}
+    ): Promise<boolean> {
+        if (this.middleware.length === 0) return this.dispatchAsync(event, args, options);
+
+        const info: EmitInfo = { mode: "async", timings: [] };
+        const chain = this.middleware;
+
+        const run = async (index: number, current: unknown[]): Promise<boolean> => {
+            const middleware = chain[index];
+            if (!middleware) return this.dispatchAsync(event, current as TEvents[K], options, info);
+
+            let forwarded: Promise<boolean> | undefined;
+            const next = (nextArgs: unknown[] = current) => (forwarded ??= run(index + 1, nextArgs));
+
+            await middleware(event, current, next, info);
+
+            if (!forwarded && this.debugMode) {
+                this.logger.log(`[Emitter] "${String(event)}" (async) dropped by middleware`);
+            }
+            return forwarded ?? false;
+        };
 
-        if (!handlers || handlers.size === 0) {
+        return run(0, args);
+    }
+
+    /** Run the handlers for an async emission that got past the middleware. */
+    private async dispatchAsync<K extends keyof TEvents>(
+        event: K,
+        args: TEvents[K],
+        options: EmitAsyncOptions,
+        info?: EmitInfo
+    ): Promise<boolean> {
+        this.record(event, args);
+        const receivers = this.receiversOf(event);
+        const name = String(event);
+
+        if (receivers.length === 0) {
             if (this.debugMode) {
-                this.logger.log(
-                    `[Emitter] No listeners for "${String(event)}" (async)`
-                );
+                this.logger.log(`[Emitter] No listeners for "${name}" (async)`);
             }
-            return;
+            return false;
         }
 
+        const {
+            mode = "parallel",
+            handlerTimeout,
+            timeout,
+            scope,
+            signal,
+            failFast = false,
+        } = { ...this.asyncOptions, ...options };
+
         if (this.debugMode) {
             this.logger.log(
-                `[Emitter] Emitting (async) "${String(event)}" to ${handlers.size} listener(s)`
+                `[Emitter] Emitting (async, ${mode}) "${name}" to ${receivers.length} listener(s)`
             );
         }
 
-        const results = await Promise.allSettled(
-            [...handlers].map((fn) => fn(...args))
-        );
+        // One controller for the whole emission. Every way of cancelling it —
+        // scope, signal, overall timeout, fail-fast — aborts this, and the
+        // emission rejects with its reason.
+        const controller = new AbortController();
+        const abort = (reason: unknown) => {
+            if (!controller.signal.aborted) controller.abort(reason);
+        };
+
+        const detachSources: Array<() => void> = [];
+        for (const source of [scope?.signal, signal]) {
+            if (!source) continue;
+            if (source.aborted) {
+                abort(source.reason);
+                break;
+            }
+            const onAbort = () => abort(source.reason);
+            source.addEventListener("abort", onAbort, { once: true });
+            detachSources.push(() => source.removeEventListener("abort", onAbort));
+        }
+
+        const timeoutId = timeout === undefined ? undefined : setTimeout(() => {
+            abort(new EmitTimeoutError(name, timeout, false));
+        }, timeout);
+
+        const state: ControlState = { defaultPrevented: false, propagationStopped: false };
+        const errors: unknown[] = [];
+
+        const runHandler = async ({ listener, withName }: { listener: Listener; withName: boolean }) => {
+            // Each handler gets its own signal when it has its own deadline.
+            const handlerController = handlerTimeout === undefined ? undefined : new AbortController();
+            const handlerSignal = handlerController?.signal ?? controller.signal;
+
+            const onEmissionAbort = () => handlerController?.abort(controller.signal.reason);
+            const handlerTimer = handlerTimeout === undefined ? undefined : setTimeout(() => {
+                handlerController?.abort(new EmitTimeoutError(name, handlerTimeout, true));
+            }, handlerTimeout);
+            controller.signal.addEventListener("abort", onEmissionAbort, { once: true });
+
+            const aborted = abortRejection(handlerSignal);
+            const control = createEventControl(name, state, handlerSignal);
+            const started = now();
+            let failed = false;
+
+            try {
+                // new Promise() turns a synchronous throw into a rejection.
+                const result = new Promise<unknown>((resolve) => {
+                    const callArgs = this.argsFor(listener, args, control);
+                    resolve(withName ? listener.fn(event, ...callArgs) : listener.fn(...callArgs));
+                });
+                await Promise.race([result, aborted.promise]);
+            } catch (error) {
+                failed = true;
+
+                // Handlers cut short by the emission's own abort are not
+                // failures of their own — the emission already rejected.
+                if (controller.signal.aborted) return;
+
+                errors.push(error);
+                if (failFast) {
+                    abort(new CompositeError(
+                        [error],
+                        `[Emitter] Handler failed for "${name}" (fail-fast)`
+                    ));
+                }
+            } finally {
+                aborted.detach();
+                clearTimeout(handlerTimer);
+                controller.signal.removeEventListener("abort", onEmissionAbort);
+
+                info?.timings.push({
+                    handler:  listener.name,
+                    duration: now() - started,
+                    failed,
+                });
+            }
+        };
 
-        const errors = results
-            .filter((r): r is PromiseRejectedResult => r.status === "rejected")
-            .map((r) => r.reason);
+        const runAll = async () => {
+            const pending: Array<Promise<void>> = [];
+
+            for (const receiver of receivers) {
+                if (controller.signal.aborted) break;
+                if (state.propagationStopped) {
+                    this.logPropagationStopped(name);
+                    break;
+                }
+
+                const run = runHandler(receiver);
+                if (mode === "serial") await run;
+                else pending.push(run);
+            }
+
+            // runHandler never rejects — failures are collected in errors.
+            await Promise.all(pending);
+        };
+
+        const aborted = abortRejection(controller.signal);
+
+        try {
+            await Promise.race([runAll(), aborted.promise]);
+        } finally {
+            aborted.detach();
+            clearTimeout(timeoutId);
+            detachSources.forEach((detach) => detach());
+        }
 
         if (errors.length > 0) {
-            throw new AggregateError(
+            throw new CompositeError(
                 errors,
-                `[Emitter] ${errors.length} handler(s) failed for "${String(event)}"`
+                `[Emitter] ${errors.length} handler(s) failed for "${name}"`
             );
         }
+
+        return state.defaultPrevented;
+    }
+
+    private logPropagationStopped(event: string): void {
+        if (this.debugMode) {
+            this.logger.log(`[Emitter] Propagation stopped for "${event}"`);
+        }
     }
 
     /**
@@ -262,9 +1108,13 @@ export class TypedEmitter<TEvents extends Record<string, unknown[]>> {
      * still holds its disposer reference after off() is called. The event is
      * gone, but the disposer will run harmlessly when the scope is disposed.
      * This is intentional — the contract is safe, just asymmetrical.
+     *
+     * Open stream() iterators for the event end.
      */
     off<K extends keyof TEvents>(event: K): void {
+        this.cancelPending(this.events.get(event));
         const deleted = this.events.delete(event);
+        this.endStreams(event);
 
         if (this.debugMode && deleted) {
             this.logger.log(
@@ -273,12 +1123,53 @@ export class TypedEmitter<TEvents extends Record<string, unknown[]>> {
         }
     }
 
+    /** End open stream() iterators — for one event, or all of them. */
+    private endStreams(event?: keyof TEvents): void {
+        this.streams.forEach((streamEvent, end) => {
+            if (event === undefined || streamEvent === event) end();
+        });
+    }
+
+    /**
+     * Remove all listeners registered with onPattern() for this exact pattern
+     * string. Same scope asymmetry as off().
+     */
+    offPattern(pattern: string): void {
+        this.cancelPending(this.patterns.get(pattern)?.listeners);
+        const deleted = this.patterns.delete(pattern);
+
+        if (this.debugMode && deleted) {
+            this.logger.log(
+                `[Emitter] All listeners removed for pattern "${pattern}"`
+            );
+        }
+    }
+
+    /**
+     * Remove all onAny() listeners. Same scope asymmetry as off().
+     */
+    offAny(): void {
+        const count = this.anyListeners.size;
+        this.cancelPending(this.anyListeners);
+        this.anyListeners = new Set();
+
+        if (this.debugMode && count > 0) {
+            this.logger.log(`[Emitter] All onAny listeners removed (${count})`);
+        }
+    }
+
     /**
-     * Remove all listeners for all events.
+     * Remove all listeners for all events — exact, pattern and onAny().
      */
     clear(): void {
-        const count = this.events.size;
+        const count = this.events.size + this.patterns.size + (this.anyListeners.size > 0 ? 1 : 0);
+        this.endStreams();
+        this.events.forEach((listeners) => this.cancelPending(listeners));
+        this.patterns.forEach((entry) => this.cancelPending(entry.listeners));
+        this.cancelPending(this.anyListeners);
         this.events.clear();
+        this.patterns.clear();
+        this.anyListeners = new Set();
 
         if (this.debugMode && count > 0) {
             this.logger.log(
@@ -287,14 +1178,20 @@ export class TypedEmitter<TEvents extends Record<string, unknown[]>> {
         }
     }
 
+    /** True if an emission of event would reach any listener, pattern or onAny() included. */
     hasListeners<K extends keyof TEvents>(event: K): boolean {
-        return (this.events.get(event)?.size ?? 0) > 0;
+        return this.listenerCount(event) > 0;
     }
 
+    /**
+     * Number of listeners an emission of event would reach: exact listeners
+     * plus matching pattern listeners plus onAny() listeners.
+     */
     listenerCount<K extends keyof TEvents>(event: K): number {
-        return this.events.get(event)?.size ?? 0;
+        return this.receiversOf(event).length;
     }
 
+    /** Events with exact listeners. Patterns are not expanded. */
     eventNames(): Array<keyof TEvents> {
         return Array.from(this.events.keys());
     }
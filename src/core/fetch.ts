@@ -13,7 +13,27 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  */
 
-import {FetchOptions, Scope} from "../types/index";
+import {
+    BackoffStrategy,
+    DisposableFn,
+    FetchOptions,
+    FetchStreamOptions,
+    HttpClient,
+    HttpClientConfig,
+    HttpRequest,
+    HttpRequestOptions,
+    HttpResponse,
+    ProgressTarget,
+    QueryParams,
+    ResponseBodyType,
+    RetryPolicy,
+    Scope,
+} from "../types/index";
+import {abortableDelay, abortRejection, isAbortError} from "./async";
+import {CacheLoad, cacheKey, cachedFetch} from "./cache";
+import {log} from "./config";
+import {toDisposableFn} from "./disposable";
+import {fetchTransport, Transport, xhrTransport} from "./transport";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // BoneMarrow Fetch Utility v1.2
@@ -22,7 +42,10 @@ import {FetchOptions, Scope} from "../types/index";
 // Import from "bonemarrow/fetch", not "bonemarrow".
 //
 // Adds scope-aware cancellation, timeout, retry, deduplication, and typed
-// JSON parsing on top of the browser fetch API.
+// JSON parsing on top of the browser fetch API, with an optional response
+// cache (see cache.ts), other body types, and NDJSON streaming.
+// createHttpClient() layers base URLs, default headers, JSON bodies and
+// interceptors over the same request pipeline.
 // ─────────────────────────────────────────────────────────────────────────────
 
 // Module-level WeakMap for dedup state. Keyed by Scope instance so:
@@ -30,6 +53,77 @@ import {FetchOptions, Scope} from "../types/index";
 // - Scope objects are never mutated or monkey-patched
 const inFlightByScope = new WeakMap<Scope, Map<string, Promise<unknown>>>();
 
+/** Statuses below 500 the default retry policy treats as transient. */
+const RETRYABLE_STATUSES = new Set([408, 429]);
+
+/**
+ * Thrown when a response comes back with a non-2xx status.
+ *
+ * body is the parsed response body — JSON when the response says it is
+ * JSON, text otherwise, undefined if it could not be read.
+ */
+export class HttpError extends Error {
+    readonly status: number;
+    readonly statusText: string;
+    readonly headers: Headers;
+    readonly body: unknown;
+    readonly url: string;
+    /** Which attempt failed — 1 for the first request, 2 for the first retry, … */
+    readonly attempt: number;
+
+    constructor(res: Response, body: unknown, url: string, attempt: number) {
+        super(`HTTP ${res.status}: ${res.statusText}`);
+        this.name       = "HttpError";
+        this.status     = res.status;
+        this.statusText = res.statusText;
+        this.headers    = res.headers;
+        this.body       = body;
+        this.url        = url;
+        this.attempt    = attempt;
+    }
+}
+
+/**
+ * Thrown when an attempt takes longer than the timeout option, or the
+ * request as a whole runs past its deadline.
+ *
+ * Not an AbortError — isAbortError() is false, so a timeout is never
+ * mistaken for scope disposal. The default retry policy retries attempt
+ * timeouts; a passed deadline is always final.
+ */
+export class TimeoutError extends Error {
+    readonly url: string;
+    /** The limit that was hit (ms) — the timeout, or the deadline. */
+    readonly timeout: number;
+    readonly attempt: number;
+    /** True if the overall deadline passed rather than one attempt's timeout. */
+    readonly deadline: boolean;
+
+    constructor(url: string, timeout: number, attempt: number, deadline = false) {
+        super(deadline
+            ? `Request to ${url} exceeded its ${timeout}ms deadline`
+            : `Request to ${url} timed out after ${timeout}ms`);
+        this.name     = "TimeoutError";
+        this.url      = url;
+        this.timeout  = timeout;
+        this.attempt  = attempt;
+        this.deadline = deadline;
+    }
+}
+
+/**
+ * The retry policy used when none is given. Retries network errors (the
+ * transport rejects with a TypeError), timeouts, and 408 / 429 / any 5xx
+ * response. Everything else — other 4xx — fails at once. Requests fetch()
+ * would refuse (a bad URL or header) and errors reading or parsing the
+ * body never reach a retry policy.
+ */
+export const defaultRetryPolicy: RetryPolicy = (error) => {
+    if (error instanceof HttpError)    return error.status >= 500 || RETRYABLE_STATUSES.has(error.status);
+    if (error instanceof TimeoutError) return true;
+    return error instanceof TypeError;
+};
+
 /**
  * Build a dedup cache key. Includes method and URL always.
  * For non-GET requests, includes the body string if available to prevent
@@ -66,65 +160,474 @@ export async function fetchJson<T>(
     options: FetchOptions<T> = {}
 ): Promise<T> {
     const {
-        scope,
-        timeout,
-        retryOnFailure = 0,
-        retryDelay     = 0,
-        dedupe         = false,
-        init,
-        parse,
+        scope, dedupe = false, init, parse, cache, cacheKey: key, onCache, responseType = "json", progress,
     } = options;
 
-    // ── Deduplication ────────────────────────────────────────────────────────
-    // Requires a scope — dedup is scoped per Scope instance by design.
-    if (dedupe && scope) {
-        let inFlight = inFlightByScope.get(scope);
-        if (!inFlight) {
-            inFlight = new Map();
-            inFlightByScope.set(scope, inFlight);
-        }
+    // Only GETs of JSON or text are cached — anything else goes straight
+    // to the server.
+    const cacheable = (init?.method?.toUpperCase() ?? "GET") === "GET" &&
+        (responseType === "json" || responseType === "text");
+
+    if (!cache || !cacheable) {
+        return dedupeRequest(scope, dedupe, requestKey(url, init), () =>
+            executeWithRetry<T>({
+                ...options,
+                url,
+                transport: uploadTransport(init?.body, progress, scope),
+                read: async (res) => {
+                    const body = await readBody(res, responseType);
+                    return parse ? parse(body) : (body as T);
+                },
+            })
+        );
+    }
+
+    return dedupeRequest(scope, dedupe, requestKey(url, init), async () => {
+        const { data, info } = await cachedFetch(
+            cache,
+            key ?? cacheKey(url, init?.headers),
+            (validators) => executeWithRetry<CacheLoad>({
+                ...options,
+                url,
+                init:        withHeaders(init, validators),
+                read:        async (res) => ({
+                    notModified: false,
+                    data:        await readBody(res, responseType),
+                    headers:     res.headers,
+                }),
+                notModified: () => ({ notModified: true }),
+            }),
+            (error) => {
+                if (isAbortError(error)) return;
+                if (!scope?.reportError(error, "user")) {
+                    log("Fetch", "warn", `Background revalidation of ${url} failed`, { error, context: { url } });
+                }
+            }
+        );
 
-        const key      = requestKey(url, init);
-        const existing = inFlight.get(key);
-        if (existing) return existing as Promise<T>;
+        onCache?.(info);
+        return parse ? parse(data) : (data as T);
+    });
+}
+
+/**
+ * Stream newline-delimited JSON (NDJSON / JSON lines), yielding each record
+ * as it arrives. The request starts on the first next().
+ *
+ * Scope disposal, the per-chunk timeout and the deadline all end the
+ * stream by rejecting the pending next(). Breaking out of the loop cancels
+ * the request.
+ *
+ * @example
+ * for await (const user of fetchStream<User>("/api/users/export", { scope, timeout: 10000 })) {
+ *   users.add(user);
+ * }
+ */
+export async function* fetchStream<T = unknown>(
+    url: string,
+    options: FetchStreamOptions<T> = {}
+): AsyncGenerator<T, void, undefined> {
+    const { scope, timeout, deadline, parse, onRetry } = options;
+
+    // Owns the body once the response is in — the per-attempt controllers
+    // inside executeWithRetry are done with by then.
+    const stream = new AbortController();
+    const onScopeAbort = () => stream.abort(scope!.signal.reason);
+    scope?.signal.addEventListener("abort", onScopeAbort, { once: true });
+
+    // Not every runtime rejects a pending read() when the request aborts —
+    // race each read against the abort so the stream always ends.
+    const aborted = abortRejection(stream.signal);
+
+    const deadlineAt = typeof deadline === "number" ? Date.now() + deadline : undefined;
+    let deadlineId: ReturnType<typeof setTimeout> | undefined;
+    let idleId: ReturnType<typeof setTimeout> | undefined;
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+    let attempt = 1;
 
-        const promise = executeWithRetry<T>({
-            url, init, parse, timeout, retryOnFailure, retryDelay, scope,
+    try {
+        const res = await executeWithRetry<Response>({
+            ...options,
+            url,
+            signal:  stream.signal,
+            read:    async (response) => response,
+            onRetry: (retry, error, delay) => {
+                attempt = retry + 1;
+                onRetry?.(retry, error, delay);
+            },
         });
 
-        inFlight.set(key, promise);
+        if (!res.body) throw new Error(`[Fetch] ${url} returned no body to stream`);
+
+        if (deadlineAt !== undefined) {
+            deadlineId = setTimeout(
+                () => stream.abort(new TimeoutError(url, deadline!, attempt, true)),
+                Math.max(0, deadlineAt - Date.now())
+            );
+        }
+
+        reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+
+        const toRecord = (line: string): T => {
+            const record = JSON.parse(line);
+            return parse ? parse(record) : (record as T);
+        };
+
+        while (true) {
+            if (typeof timeout === "number") {
+                idleId = setTimeout(() => stream.abort(new TimeoutError(url, timeout, attempt)), timeout);
+            }
+
+            let chunk: ReadableStreamReadResult<Uint8Array>;
+            try {
+                chunk = await Promise.race([reader.read(), aborted.promise]);
+            } catch (error) {
+                // Report why we aborted, whatever the runtime rejected with.
+                throw stream.signal.aborted ? stream.signal.reason : error;
+            } finally {
+                clearTimeout(idleId);
+            }
+
+            if (chunk.done) break;
+
+            buffer += decoder.decode(chunk.value, { stream: true });
+            const lines = buffer.split("\n");
+            buffer = lines.pop()!;
+
+            for (const line of lines) {
+                if (line.trim()) yield toRecord(line);
+            }
+        }
 
-        // Remove from cache when settled, whichever comes first:
-        // resolution, rejection, or scope disposal.
-        const cleanup = () => inFlight!.delete(key);
-        promise.then(cleanup, cleanup);
-        scope.onDispose(cleanup);
+        buffer += decoder.decode();
+        if (buffer.trim()) yield toRecord(buffer);
 
-        return promise;
+    } finally {
+        clearTimeout(deadlineId);
+        clearTimeout(idleId);
+        scope?.signal.removeEventListener("abort", onScopeAbort);
+        aborted.detach();
+        // Cancel the body if the consumer stopped early, a record failed to
+        // parse or the stream was aborted. A no-op once the body has ended.
+        stream.abort();
+        reader?.cancel().catch(() => {});
     }
+}
 
-    // ── No deduplication ─────────────────────────────────────────────────────
-    return executeWithRetry<T>({
-        url, init, parse, timeout, retryOnFailure, retryDelay, scope,
-    });
+// ─────────────────────────────────────────────────────────────────────────────
+// HTTP client
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Create an HTTP client with a base URL, default headers and defaults for
+ * scope, timeout and retry. Requests go through the same pipeline as
+ * fetchJson — scope cancellation, per-attempt timeout, retry and dedupe.
+ *
+ * Plain object and array bodies are sent as JSON with a Content-Type
+ * header. Responses are read as JSON unless options.responseType says
+ * otherwise; empty JSON responses (204 and the like) resolve with undefined.
+ *
+ * @example
+ * const api = createHttpClient({ baseURL: "/api", scope, timeout: 5000 });
+ *
+ * api.onRequest((req) => ({
+ *   ...req,
+ *   headers: { ...req.headers, Authorization: `Bearer ${token()}` },
+ * }));
+ *
+ * const users = await api.get<User[]>("/users", { query: { page: 2 } });
+ * await api.post("/users", { name: "Ada" });
+ */
+export function createHttpClient(config: HttpClientConfig = {}): HttpClient {
+    const requestInterceptors  = new Set<RequestInterceptor>();
+    const responseInterceptors = new Set<ResponseInterceptor>();
+
+    const register = <F>(set: Set<F>, fn: F, scope?: Scope): DisposableFn => {
+        set.add(fn);
+        const unregister = scope?.onDispose(() => set.delete(fn));
+        return toDisposableFn(() => {
+            set.delete(fn);
+            unregister?.();
+        });
+    };
+
+    async function request<T>(
+        method: string,
+        url: string,
+        options: HttpRequestOptions<T> & { body?: unknown } = {}
+    ): Promise<T> {
+        const { scope = config.scope, dedupe = false, parse, init } = options;
+
+        let req: HttpRequest = {
+            method:  method.toUpperCase(),
+            url:     withQuery(joinURL(config.baseURL, url), options.query),
+            headers: { Accept: "application/json", ...config.headers, ...options.headers },
+            body:    options.body,
+        };
+
+        // Snapshot, so registering an interceptor mid-request has no effect.
+        for (const intercept of [...requestInterceptors]) {
+            req = await intercept(req);
+        }
+
+        const sent        = req;
+        const requestInit = { ...init, method: sent.method, ...encodeBody(sent) };
+
+        return dedupeRequest(scope, dedupe, requestKey(sent.url, requestInit), () =>
+            executeWithRetry<T>({
+                ...options,
+                scope,
+                timeout:        options.timeout        ?? config.timeout,
+                retryOnFailure: options.retryOnFailure ?? config.retryOnFailure,
+                retryDelay:     options.retryDelay     ?? config.retryDelay,
+                retryOn:        options.retryOn        ?? config.retryOn,
+                backoff:        options.backoff        ?? config.backoff,
+                maxDelay:       options.maxDelay       ?? config.maxDelay,
+                url:            sent.url,
+                init:           requestInit,
+                transport:      uploadTransport(requestInit.body, options.progress, scope),
+                read: async (res) => {
+                    const body = await readBody(res, options.responseType ?? "json");
+
+                    let response: HttpResponse = {
+                        data:       parse ? parse(body) : body,
+                        status:     res.status,
+                        statusText: res.statusText,
+                        headers:    res.headers,
+                        request:    sent,
+                    };
+
+                    for (const intercept of [...responseInterceptors]) {
+                        response = await intercept(response);
+                    }
+
+                    return response.data as T;
+                },
+            })
+        );
+    }
+
+    return {
+        request,
+        get:    (url, options) => request("GET", url, options),
+        delete: (url, options) => request("DELETE", url, options),
+        post:   (url, body, options) => request("POST", url, { ...options, body }),
+        put:    (url, body, options) => request("PUT", url, { ...options, body }),
+        patch:  (url, body, options) => request("PATCH", url, { ...options, body }),
+
+        onRequest:  (fn, scope) => register(requestInterceptors, fn, scope),
+        onResponse: (fn, scope) => register(responseInterceptors, fn, scope),
+    };
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Internal
 // ─────────────────────────────────────────────────────────────────────────────
 
-interface ExecuteOptions<T> {
+type RequestInterceptor  = (request: HttpRequest) => HttpRequest | Promise<HttpRequest>;
+type ResponseInterceptor = (response: HttpResponse) => HttpResponse | Promise<HttpResponse>;
+
+/**
+ * Share one in-flight request per key within a scope. Without dedupe or a
+ * scope, just runs it — dedup is scoped per Scope instance by design.
+ */
+function dedupeRequest<T>(
+    scope: Scope | undefined,
+    dedupe: boolean,
+    key: string,
+    run: () => Promise<T>
+): Promise<T> {
+    if (!dedupe || !scope) return run();
+
+    let inFlight = inFlightByScope.get(scope);
+    if (!inFlight) {
+        inFlight = new Map();
+        inFlightByScope.set(scope, inFlight);
+    }
+
+    const existing = inFlight.get(key);
+    if (existing) return existing as Promise<T>;
+
+    const promise = run();
+    inFlight.set(key, promise);
+
+    // Remove from cache when settled, whichever comes first:
+    // resolution, rejection, or scope disposal.
+    const cleanup = () => inFlight!.delete(key);
+    promise.then(cleanup, cleanup);
+    scope.onDispose(cleanup);
+
+    return promise;
+}
+
+/** Prefix a relative URL with the base URL. Absolute URLs pass through. */
+function joinURL(baseURL: string | undefined, url: string): string {
+    if (!baseURL || /^[a-z][a-z\d+\-.]*:/i.test(url) || url.startsWith("//")) return url;
+    return `${baseURL.replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`;
+}
+
+/** Append query parameters, keeping any query string already on the URL. */
+function withQuery(url: string, query: QueryParams | undefined): string {
+    if (!query) return url;
+
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+            if (item === null || item === undefined) continue;
+            params.append(key, item instanceof Date ? item.toISOString() : String(item));
+        }
+    }
+
+    const search = params.toString();
+    if (!search) return url;
+
+    const hash = url.indexOf("#");
+    const base = hash === -1 ? url : url.slice(0, hash);
+    const tail = hash === -1 ? "" : url.slice(hash);
+    return `${base}${base.includes("?") ? "&" : "?"}${search}${tail}`;
+}
+
+/** Plain objects and arrays — what the client serializes as JSON. */
+function isJsonBody(body: unknown): boolean {
+    if (Array.isArray(body)) return true;
+    if (typeof body !== "object" || body === null) return false;
+    const proto = Object.getPrototypeOf(body);
+    return proto === Object.prototype || proto === null;
+}
+
+/** Serialize the body, setting Content-Type for JSON unless already set. */
+function encodeBody(req: HttpRequest): Pick<RequestInit, "headers" | "body"> {
+    if (req.body === undefined || req.body === null) return { headers: req.headers };
+    if (!isJsonBody(req.body)) return { headers: req.headers, body: req.body as BodyInit };
+
+    const hasType = Object.keys(req.headers).some((name) => name.toLowerCase() === "content-type");
+    return {
+        headers: hasType ? req.headers : { ...req.headers, "Content-Type": "application/json" },
+        body:    JSON.stringify(req.body),
+    };
+}
+
+interface ExecuteOptions<T> extends Omit<FetchOptions<T>, "dedupe" | "parse" | "cache" | "cacheKey" | "onCache"> {
     url: string;
-    init?: Omit<RequestInit, "signal">;
-    parse?: (json: unknown) => T;
-    timeout?: number;
-    retryOnFailure: number;
-    retryDelay: number;
-    scope?: Scope;
+    /** Turn an ok response into the result. Runs inside the attempt. */
+    read: (res: Response) => Promise<T>;
+    /** The result for a 304. Without it a 304 is an HttpError like any non-2xx. */
+    notModified?: () => T;
+    /** How to send the request. Default: fetch(), counting downloads into progress. */
+    transport?: Transport;
+    /**
+     * Also aborts the attempt in flight. Unlike the scope and timeout it
+     * stays wired to the successful attempt, so it can still cancel a
+     * response body read after executeWithRetry() returns.
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * XMLHttpRequest when there is a body whose upload progress is wanted —
+ * fetch() can't report it. Otherwise undefined, for the default transport.
+ * Where XMLHttpRequest does not exist (service workers, Node, SSR) that is
+ * fetch() too, and only download progress is reported.
+ */
+function uploadTransport(
+    body: BodyInit | null | undefined,
+    progress: ProgressTarget | undefined,
+    scope: Scope | undefined
+): Transport | undefined {
+    return progress && body !== undefined && body !== null && typeof XMLHttpRequest === "function"
+        ? xhrTransport(progress, scope)
+        : undefined;
+}
+
+/**
+ * Read a body as responseType asks. JSON is read as text first so an empty
+ * body (204 and the like) comes back as undefined rather than a SyntaxError.
+ */
+async function readBody(res: Response, responseType: ResponseBodyType): Promise<unknown> {
+    switch (responseType) {
+        case "text":        return res.text();
+        case "blob":        return res.blob();
+        case "arrayBuffer": return res.arrayBuffer();
+        case "formData":    return res.formData();
+        case "response":    return res;
+        default: {
+            const text = await res.text();
+            return text ? JSON.parse(text) : undefined;
+        }
+    }
+}
+
+/**
+ * Throw the TypeError fetch() would for a request it cannot make: an
+ * unparseable URL, an invalid header, or a body on GET / HEAD. Relative URLs
+ * are only checked where there is a document base to resolve them against.
+ */
+function assertValidRequest(url: string, init: Omit<RequestInit, "signal"> | undefined): void {
+    const base = typeof location === "undefined" ? undefined : location.href;
+    if (base !== undefined || /^[a-z][a-z\d+.-]*:/i.test(url)) new URL(url, base);
+
+    new Headers(init?.headers);
+
+    const method = init?.method?.toUpperCase() ?? "GET";
+    if ((method === "GET" || method === "HEAD") && init?.body !== undefined && init.body !== null) {
+        throw new TypeError(`[Fetch] A ${method} request cannot have a body`);
+    }
+}
+
+/** Add headers to a RequestInit, whatever form its headers are in. */
+function withHeaders(
+    init: Omit<RequestInit, "signal"> | undefined,
+    extra: Record<string, string>
+): Omit<RequestInit, "signal"> | undefined {
+    if (Object.keys(extra).length === 0) return init;
+
+    const headers = new Headers(init?.headers);
+    for (const [name, value] of Object.entries(extra)) headers.set(name, value);
+    return { ...init, headers };
+}
+
+/** Delay before retry number `retry`, before maxDelay is applied. */
+function backoffDelay(
+    strategy: BackoffStrategy,
+    base: number,
+    retry: number,
+    previous: number
+): number {
+    switch (strategy) {
+        case "linear":      return base * retry;
+        case "exponential": return base * 2 ** (retry - 1);
+        // Decorrelated jitter: random between the base and three times the
+        // last delay, so concurrent clients spread out instead of retrying
+        // in lockstep.
+        case "jitter":      return base + Math.random() * (Math.max(previous, base) * 3 - base);
+        default:            return base;
+    }
 }
 
 async function executeWithRetry<T>(opts: ExecuteOptions<T>): Promise<T> {
-    const { url, init, parse, timeout, retryOnFailure, retryDelay, scope } = opts;
+    const {
+        url,
+        init,
+        read,
+        notModified,
+        signal,
+        scope,
+        progress,
+        transport      = fetchTransport(progress, scope),
+        timeout,
+        deadline,
+        onRetry,
+        retryOnFailure = 0,
+        retryDelay     = 0,
+        retryOn        = defaultRetryPolicy,
+        backoff        = "constant",
+        maxDelay       = Infinity,
+    } = opts;
+
+    // Absolute time the whole request — every attempt and wait — must end by.
+    const deadlineAt = typeof deadline === "number" ? Date.now() + deadline : undefined;
 
     // Ref to the controller for whichever attempt is currently in flight.
     // Defined before the scope listener so the listener always sees the
@@ -133,59 +636,126 @@ async function executeWithRetry<T>(opts: ExecuteOptions<T>): Promise<T> {
 
     // Wire the scope abort listener exactly once, outside the retry loop.
     // Wiring inside the loop would accumulate listeners across attempts.
-    const onScopeAbort = () => currentController?.abort();
+    // The scope's reason (a ScopeAbortError) is forwarded so that callers
+    // can tell a timeout-scope or parent disposal from an explicit one.
+    const onScopeAbort = () => currentController?.abort(scope?.signal.reason);
+
+    // A request fetch() would refuse fails the same way on every attempt —
+    // fail it now rather than retrying a TypeError that is not a network error.
+    assertValidRequest(url, init);
 
     if (scope) {
         if (scope.signal.aborted) {
             // Scope already disposed — fail immediately, don't even try.
-            throw new DOMException("Scope already disposed", "AbortError");
+            throw scopeAbortReason(scope, "Scope already disposed");
         }
         scope.signal.addEventListener("abort", onScopeAbort, { once: true });
     }
 
     try {
         let attempt = 0;
+        let lastDelay = 0;
 
         while (true) {
+            attempt++;
+
             // Fresh AbortController per attempt. A timeout or abort on one
             // attempt does not carry over and poison the next.
             const controller = new AbortController();
             currentController = controller;
 
-            let timeoutId: ReturnType<typeof setTimeout> | undefined;
+            const onSignalAbort = () => controller.abort(signal!.reason);
+            if (signal?.aborted) onSignalAbort();
+            signal?.addEventListener("abort", onSignalAbort, { once: true });
 
-            if (typeof timeout === "number") {
-                timeoutId = setTimeout(() => controller.abort(), timeout);
+            let timeoutId: ReturnType<typeof setTimeout> | undefined;
+            let timedOut: TimeoutError | undefined;
+            // Set once the response is accepted and read() runs.
+            let reading = false;
+
+            // The attempt ends at its own timeout or the overall deadline,
+            // whichever comes first.
+            const remaining  = deadlineAt === undefined ? undefined : deadlineAt - Date.now();
+            const byDeadline = remaining !== undefined && (timeout === undefined || remaining <= timeout);
+            const limit      = byDeadline ? remaining : timeout;
+
+            if (typeof limit === "number") {
+                timeoutId = setTimeout(() => {
+                    timedOut = byDeadline
+                        ? new TimeoutError(url, deadline!, attempt, true)
+                        : new TimeoutError(url, limit, attempt);
+                    controller.abort(timedOut);
+                }, Math.max(0, limit));
                 // If scope abort and timeout fire simultaneously, both call
                 // controller.abort() — this is safe, abort() is idempotent.
             }
 
             try {
-                const res = await fetch(url, { ...init, signal: controller.signal });
+                const res = await transport(url, { ...init, signal: controller.signal });
 
-                if (!res.ok) {
-                    throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+                if (res.status === 304 && notModified) {
+                    return notModified();
+                } else if (!res.ok) {
+                    throw new HttpError(res, await readErrorBody(res), url, attempt);
                 } else {
-                    const json = await res.json();
-                    return parse ? parse(json) : (json as T);
+                    reading = true;
+                    return await read(res);
                 }
 
-            } catch (err) {
-                // Abort is always terminal — never retry a cancelled request.
-                if (isAbortError(err)) throw err;
+            } catch (caught) {
+                signal?.removeEventListener("abort", onSignalAbort);
 
-                attempt++;
-                if (attempt > retryOnFailure) throw err;
+                // Abort is always terminal — never retry a cancelled request.
+                if (scope?.signal.aborted || signal?.aborted) throw caught;
+
+                // Environments differ in what fetch rejects with on abort —
+                // report our own timeout either way.
+                const err = timedOut ?? caught;
+                if (isAbortError(err) || timedOut?.deadline) throw err;
+
+                // Only getting the response is retried. A failure in read() —
+                // parsing, parse(), an interceptor — is the caller's, and
+                // retrying could resubmit a request the server already took.
+                if (reading && !timedOut) throw err;
+
+                if (attempt > retryOnFailure || !retryOn(err, attempt)) throw err;
+
+                // A server that says when to come back knows better than
+                // the backoff strategy.
+                const delay = Math.min(
+                    retryAfter(err) ?? backoffDelay(backoff, retryDelay, attempt, lastDelay),
+                    maxDelay
+                );
+                lastDelay = delay;
+
+                // Don't start a wait the deadline won't let us finish — the
+                // last real failure says more than a TimeoutError would.
+                if (deadlineAt !== undefined && Date.now() + delay >= deadlineAt) throw err;
+
+                log("Fetch", "debug", `Retrying ${url} (retry ${attempt} of ${retryOnFailure})`, {
+                    error:   err,
+                    context: { url, attempt, delay },
+                });
+
+                if (onRetry) {
+                    try {
+                        onRetry(attempt, err, delay);
+                    } catch (error) {
+                        if (!scope?.reportError(error, "user")) {
+                            log("Fetch", "error", "Error in onRetry handler", { error, context: { url } });
+                        }
+                    }
+                }
 
                 // Wait before retrying, but cut the delay short if the scope
                 // is disposed — no point waiting out a full delay after cancel.
-                if (retryDelay > 0) {
-                    await abortableDelay(retryDelay, scope?.signal);
+                if (delay > 0) {
+                    await abortableDelay(delay, scope?.signal);
                 }
 
                 // Check abort again after the delay — scope may have been
                 // disposed while we were waiting.
-                if (scope?.signal.aborted) throw new DOMException("Scope disposed during retry", "AbortError");
+                if (scope?.signal.aborted) throw scopeAbortReason(scope, "Scope disposed during retry");
 
             } finally {
                 currentController = null;
@@ -203,37 +773,36 @@ async function executeWithRetry<T>(opts: ExecuteOptions<T>): Promise<T> {
 }
 
 /**
- * Wait for `ms` milliseconds, resolving early if the signal aborts.
- * Resolves (never rejects) — the caller checks abort state after awaiting.
+ * Read a failed response's body for HttpError: JSON if the response says
+ * so, otherwise text. Never throws — the status is the error that matters.
  */
-function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
-    return new Promise<void>((resolve) => {
-        if (signal?.aborted) {
-            resolve();
-            return;
-        }
+async function readErrorBody(res: Response): Promise<unknown> {
+    try {
+        const text = await res.text();
+        if (!text) return undefined;
+        const type = res.headers.get("Content-Type") ?? "";
+        return /[/+]json\b/i.test(type) ? JSON.parse(text) : text;
+    } catch {
+        return undefined;
+    }
+}
 
-        const timeoutId = setTimeout(resolve, ms);
+/** Milliseconds a Retry-After header asks for, if the error carries one. */
+function retryAfter(error: unknown): number | undefined {
+    const header = error instanceof HttpError ? error.headers.get("Retry-After") : null;
+    if (!header) return undefined;
 
-        signal?.addEventListener(
-            "abort",
-            () => {
-                clearTimeout(timeoutId);
-                resolve();
-            },
-            { once: true }
-        );
-    });
+    // Either delay-seconds or an HTTP date.
+    const ms = /^\d+$/.test(header.trim())
+        ? Number(header) * 1000
+        : Date.parse(header) - Date.now();
+    return Number.isNaN(ms) ? undefined : Math.max(0, ms);
 }
 
 /**
- * Detect abort errors across environments.
- * Checks error.name (modern standard) and error.code === 20 (legacy
- * DOMException in older Safari and some React Native environments).
+ * The error to reject with once the scope is gone: its signal.reason when
+ * the environment records one, otherwise a plain AbortError.
  */
-function isAbortError(error: unknown): boolean {
-    return (
-        error instanceof Error &&
-        (error.name === "AbortError" || (error as any).code === 20)
-    );
+function scopeAbortReason(scope: Scope, message: string): unknown {
+    return scope.signal.reason ?? new DOMException(message, "AbortError");
 }
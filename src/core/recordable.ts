@@ -0,0 +1,43 @@
+/*
+ * BoneMarrow
+ * Copyright (c) 2025-present Karthick Raj
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ */
+
+import type {TypedEmitter} from "./emitter";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Recorder access to private emitters (internal)
+//
+// Model and Collection keep their emitters private. They register them here
+// so the recorder can attach without the emitters becoming public API.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface RecordableSource {
+    emitter: TypedEmitter<any>;
+    /**
+     * Re-create a recorded emission through the owner's own API (e.g.
+     * model.set()) so state follows along. Return false to fall back to
+     * re-emitting it on the emitter.
+     */
+    apply?(event: string, args: unknown[]): boolean;
+}
+
+const sources = new WeakMap<object, RecordableSource>();
+
+export function registerRecordable(owner: object, source: RecordableSource): void {
+    sources.set(owner, source);
+}
+
+export function recordableOf(owner: object): RecordableSource | undefined {
+    return sources.get(owner);
+}
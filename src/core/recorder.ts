@@ -0,0 +1,184 @@
+/*
+ * BoneMarrow
+ * Copyright (c) 2025-present Karthick Raj
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ */
+
+import {DisposableFn, Scope} from "../types/index";
+import type {Collection} from "../data/collection";
+import type {Model} from "../data/model";
+import {abortableDelay} from "./async";
+import {log} from "./config";
+import {toDisposableFn} from "./disposable";
+import {TypedEmitter} from "./emitter";
+import {recordableOf, RecordableSource} from "./recordable";
+import {now} from "./util";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// BoneMarrow Recorder v1.2
+//
+// Captures a timeline of emissions from any set of emitters — including the
+// private ones inside Model and Collection — and replays it into fresh
+// instances. Built on emitter middleware. Meant for reproducing bug reports:
+// record in the field, serialize the timeline, replay at a desk.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Anything a recorder can attach to or replay into. */
+export type Recordable = TypedEmitter<any> | Model<any> | Collection<any>;
+
+/** One captured emission. */
+export interface RecordedEvent {
+    /** Name given to the source in attach(). */
+    source: string;
+    event: string;
+    args: unknown[];
+    /** Milliseconds since the recorder was created. */
+    time: number;
+}
+
+export interface ReplayOptions {
+    /**
+     * Playback speed relative to the recording: 1 keeps the original gaps
+     * between emissions, 2 halves them. 0 (default) replays back to back.
+     */
+    speed?: number;
+    /** Stop replaying when this scope is disposed. */
+    scope?: Scope;
+}
+
+export interface EventRecorder {
+    /**
+     * Start recording emissions from source under the given name. Returns
+     * a DisposeFn that stops recording it.
+     */
+    attach(source: Recordable, name: string): DisposableFn;
+    /** A copy of everything recorded so far, oldest first. */
+    timeline(): RecordedEvent[];
+    /** Forget everything recorded so far. Attached sources stay attached. */
+    clear(): void;
+    /** Detach from every source. */
+    stop(): void;
+    /** replayTimeline() with this recorder's timeline. */
+    replay(targets: Record<string, Recordable>, options?: ReplayOptions): Promise<void>;
+}
+
+function sourceOf(target: Recordable): RecordableSource | undefined {
+    return target instanceof TypedEmitter ? { emitter: target } : recordableOf(target);
+}
+
+/**
+ * Create a recorder. With a scope, it stops recording when the scope is
+ * disposed.
+ *
+ * Arguments are stored as emitted, not copied — serialize the timeline
+ * (e.g. JSON.stringify) to keep a snapshot.
+ *
+ * @example
+ * const recorder = createRecorder({ scope });
+ * recorder.attach(userModel, "user");
+ * recorder.attach(todos, "todos");
+ * recorder.attach(appEvents, "app");
+ *
+ * // later, in a bug report
+ * const report = JSON.stringify(recorder.timeline());
+ */
+export function createRecorder(options?: { scope?: Scope }): EventRecorder {
+    const started = now();
+    let events: RecordedEvent[] = [];
+    const detachers = new Set<() => void>();
+
+    const recorder: EventRecorder = {
+        attach(source: Recordable, name: string): DisposableFn {
+            const resolved = sourceOf(source);
+            if (!resolved) {
+                throw new Error(`[Recorder] Cannot record "${name}" — not an emitter, Model or Collection`);
+            }
+
+            const off = resolved.emitter.use((event, args, next) => {
+                events.push({ source: name, event: String(event), args: [...args], time: now() - started });
+                next();
+            });
+
+            const detach = () => {
+                off();
+                detachers.delete(detach);
+            };
+            detachers.add(detach);
+
+            return toDisposableFn(detach);
+        },
+
+        timeline(): RecordedEvent[] {
+            return events.map((entry) => ({ ...entry, args: [...entry.args] }));
+        },
+
+        clear(): void {
+            events = [];
+        },
+
+        stop(): void {
+            detachers.forEach((detach) => detach());
+        },
+
+        replay(targets: Record<string, Recordable>, replayOptions?: ReplayOptions): Promise<void> {
+            return replayTimeline(recorder.timeline(), targets, replayOptions);
+        },
+    };
+
+    options?.scope?.onDispose(() => recorder.stop());
+    return recorder;
+}
+
+/**
+ * Replay a recorded timeline into targets, keyed by the source names used
+ * when recording. Entries for sources without a target are skipped.
+ *
+ * Model and Collection targets re-apply what they can through their own
+ * API, so their state follows the recording: Model "change" → set(),
+ * Collection "add" → add(), "reset" → reset(). Other Collection events
+ * ("remove", "update", "sort") are re-emitted to listeners only, since the
+ * recorded items are not the target's items. Emitters simply re-emit.
+ *
+ * Rejects with the scope's abort reason if the scope is disposed midway.
+ *
+ * @example
+ * const timeline = JSON.parse(report);
+ * await replayTimeline(timeline, { user: new Model(blankUser), todos: new Collection() });
+ */
+export async function replayTimeline(
+    timeline: RecordedEvent[],
+    targets: Record<string, Recordable>,
+    options: ReplayOptions = {}
+): Promise<void> {
+    const { speed = 0, scope } = options;
+    let previous = timeline[0]?.time ?? 0;
+
+    for (const entry of timeline) {
+        if (speed > 0) {
+            await abortableDelay((entry.time - previous) / speed, scope?.signal);
+        }
+        previous = entry.time;
+
+        if (scope?.signal.aborted) throw scope.signal.reason;
+
+        const target = targets[entry.source];
+        const source = target && sourceOf(target);
+        if (!source) {
+            log("Recorder", "debug", `No target for "${entry.source}" — skipped "${entry.event}"`);
+            continue;
+        }
+
+        if (!source.apply?.(entry.event, entry.args)) {
+            source.emitter.emit(entry.event, ...entry.args);
+        }
+    }
+}
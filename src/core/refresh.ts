@@ -13,7 +13,10 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  */
 
-import {RefreshController, RefreshOptions} from "../types/index";
+import {DisposeFn, RefreshController, RefreshOptions} from "../types/index";
+import {isAbortError} from "./async";
+import {log} from "./config";
+import {ScopeAbortError} from "./scope";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // BoneMarrow Refresh v1.2
@@ -35,7 +38,8 @@ import {RefreshController, RefreshOptions} from "../types/index";
  *
  * fn receives a fresh AbortSignal each tick. The signal is aborted if stop()
  * is called while that tick is in flight. Pass it to fetch() or any
- * cancellable async operation.
+ * cancellable async operation. When the abort comes from scope disposal,
+ * signal.reason is the scope's ScopeAbortError.
  *
  * @example
  * const refresh = createRefresh(
@@ -83,6 +87,10 @@ export function createRefresh(
     // tick so that aborting one tick never poisons future executions.
     let currentAbort: AbortController | null = null;
 
+    // Removers for the scope's suspend / resume handlers, run by halt() so a
+    // stopped loop leaves nothing behind on a long-lived scope.
+    const lifecycleRemovers: DisposeFn[] = [];
+
     const debug = (msg: string): void => onDebug?.(`[Refresh] ${msg}`);
 
     const calculateDelay = (): number => {
@@ -126,7 +134,7 @@ export function createRefresh(
         } catch (error) {
             // Abort errors are intentional cancellation — not failures.
             if (isAbortError(error)) {
-                debug("Tick aborted");
+                debug(`Tick aborted${describeReason(abort.signal.reason)}`);
                 return;
             }
 
@@ -137,16 +145,21 @@ export function createRefresh(
                 try {
                     onError(error);
                 } catch (handlerError) {
-                    console.error("[Refresh] Error in onError handler:", handlerError);
+                    if (!scope.reportError(handlerError, "refresh")) {
+                        log("Refresh", "error", "Error in onError handler", { error: handlerError });
+                    }
                 }
-            } else {
-                console.error("[Refresh] Unhandled error in refresh fn:", error);
+            } else if (!scope.reportError(error, "refresh")) {
+                log("Refresh", "error", "Unhandled error in refresh fn", {
+                    error,
+                    context: { consecutiveErrors },
+                });
             }
 
             if (maxRetries > 0 && consecutiveErrors >= maxRetries) {
-                console.error(
-                    `[Refresh] Stopping after ${maxRetries} consecutive error(s).`
-                );
+                log("Refresh", "error", `Stopping after ${maxRetries} consecutive error(s).`, {
+                    context: { maxRetries },
+                });
                 stop();
                 return;
             }
@@ -179,22 +192,52 @@ export function createRefresh(
         tick();
     };
 
-    const stop = (): void => {
+    // reason is forwarded to the in-flight tick's signal. When the scope
+    // disposes it is the scope's ScopeAbortError, so fn can inspect
+    // signal.reason.kind to tell a timeout from a parent disposal.
+    const halt = (reason?: unknown): void => {
         if (stopped) return;
         stopped = true;
         paused  = false;
         clearScheduled();
         // Abort only the currently in-flight tick, if any.
         // Future ticks are already prevented by stopped = true.
-        currentAbort?.abort();
+        currentAbort?.abort(reason);
         currentAbort = null;
-        debug("Stopped");
+        lifecycleRemovers.forEach((remove) => remove());
+        lifecycleRemovers.length = 0;
+        debug(`Stopped${describeReason(reason)}`);
     };
 
+    const stop = (): void => halt();
+
     // Scope owns exactly one disposer — registered once at construction, never again.
-    scope.onDispose(stop);
+    scope.onDispose(() => halt(scope.signal.reason));
 
-    if (!startPaused) {
+    // Pause while the scope is suspended (e.g. page in bfcache) and pick up
+    // again on resume — but only if the suspension is what paused us. A loop
+    // the caller paused stays paused.
+    let pausedBySuspend = false;
+
+    lifecycleRemovers.push(
+        scope.onSuspend(() => {
+            if (stopped || paused) return;
+            pausedBySuspend = true;
+            pause();
+        }),
+        scope.onResume(() => {
+            if (!pausedBySuspend) return;
+            pausedBySuspend = false;
+            resume();
+        })
+    );
+
+    if (!startPaused && scope.isSuspended()) {
+        // Created under an already-suspended scope — wait for resume.
+        paused = true;
+        pausedBySuspend = true;
+        debug("Created while scope is suspended");
+    } else if (!startPaused) {
         if (immediate) {
             tick();
         } else {
@@ -216,13 +259,9 @@ export function createRefresh(
 // ─────────────────────────────────────────────────────────────────────────────
 
 /**
- * Detect abort errors across environments.
- * Checks both error.name (modern) and error.code (legacy DOMException in
- * older Safari and some React Native environments).
+ * Debug suffix naming a scope disposal kind, e.g. " (timeout)".
+ * Empty for plain stop() calls and non-scope reasons.
  */
-function isAbortError(error: unknown): boolean {
-    return (
-        error instanceof Error &&
-        (error.name === "AbortError" || (error as any).code === 20)
-    );
+function describeReason(reason: unknown): string {
+    return reason instanceof ScopeAbortError ? ` (${reason.kind})` : "";
 }
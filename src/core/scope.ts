@@ -13,7 +13,28 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  */
 
-import {DisposeFn, Scope} from "../types/index";
+import {
+    AsyncDisposableLike,
+    AsyncDisposeFn,
+    ContextKey,
+    DisposeAsyncOptions,
+    DisposableLike,
+    DisposeFn,
+    LeakDetectionOptions,
+    LiveRootScope,
+    Scope,
+    ScopeDisposeKind,
+    ScopeErrorHandler,
+    ScopeErrorSource,
+    ScopeLeakReport,
+    ScopeOptions,
+    ScopeResource,
+    ScopeSnapshot,
+    ScopeTask,
+} from "../types/index";
+import {firstFulfilled} from "./async";
+import {isDebugEnabled, log} from "./config";
+import {asyncDisposeSymbol, disposeSymbol} from "./disposable";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // BoneMarrow Scope v1.2
@@ -27,93 +48,728 @@ import {DisposeFn, Scope} from "../types/index";
 // Cleanups run in LIFO order — last registered, first called.
 // ─────────────────────────────────────────────────────────────────────────────
 
+const ANONYMOUS_SCOPE = "(anonymous)";
+
+// Internal hooks, keyed by scope. Never exposed on the Scope object itself.
+// - createChild: lets createScope() attach a child to the window scope with
+//   its own debug flag while still going through the parent's children
+//   bookkeeping, so snapshots see it.
+// - lookupContext: non-throwing context lookup used to walk up the tree.
+// - handleError: deliver an error to this scope's boundary or the nearest
+//   ancestor's. Returns false if no boundary exists up to the root.
+interface ScopeInternals {
+    createChild(debug: boolean, name?: string): Scope;
+    lookupContext(id: symbol): { value: unknown } | undefined;
+    handleError(error: unknown, source: ScopeErrorSource, origin: Scope): boolean;
+}
+
+const internals = new WeakMap<Scope, ScopeInternals>();
+
+/**
+ * Thrown by scope.disposeAsync() when one or more cleanups failed, or when
+ * the disposal deadline passed before every cleanup had settled.
+ *
+ * Disposal always completes regardless — by the time this is thrown the
+ * scope is disposed and every cleanup has been started.
+ */
+export class ScopeDisposeError extends Error {
+    /** Every cleanup failure across the disposed subtree, in the order observed. */
+    readonly errors: unknown[];
+
+    /** True if the timeout passed before all async cleanups had settled. */
+    readonly timedOut: boolean;
+
+    constructor(errors: unknown[], timedOut: boolean, message: string) {
+        super(message);
+        this.name     = "ScopeDisposeError";
+        this.errors   = errors;
+        this.timedOut = timedOut;
+    }
+}
+
+/**
+ * The value of scope.signal.reason once a scope is disposed, and the error
+ * fetchJson() and refresh ticks reject with when their scope goes away.
+ *
+ * name is "AbortError" so every existing abort check still matches. Use kind
+ * to tell disposal causes apart:
+ * - "explicit" — dispose() / disposeAsync() was called on this scope
+ * - "parent"   — an ancestor (or linked source scope) was disposed
+ * - "signal"   — an AbortSignal passed to createLinkedScope() aborted
+ * - "timeout"  — the deadline from withTimeout() passed
+ * - "unload"   — the page was unloaded (window scope only)
+ *
+ * cause holds the upstream reason: the parent's ScopeAbortError, the linked
+ * signal's reason, or the value passed to dispose(reason).
+ */
+export class ScopeAbortError extends Error {
+    readonly kind: ScopeDisposeKind;
+    readonly cause: unknown;
+
+    constructor(kind: ScopeDisposeKind, message: string, cause?: unknown) {
+        super(message);
+        this.name  = "AbortError";
+        this.kind  = kind;
+        this.cause = cause;
+    }
+}
+
+/** Normalize a dispose() argument into the reason the signal aborts with. */
+function toAbortReason(reason: unknown): ScopeAbortError {
+    if (reason instanceof ScopeAbortError) return reason;
+    return new ScopeAbortError("explicit", "[Scope] Scope disposed", reason);
+}
+
+function parentReason(reason: ScopeAbortError): ScopeAbortError {
+    return new ScopeAbortError("parent", "[Scope] Parent scope disposed", reason);
+}
+
+/**
+ * Call a cleanup without awaiting it. A returned promise is observed only
+ * so that its rejection is reported instead of going unhandled.
+ */
+function runDetached(fn: AsyncDisposeFn, onError: (error: unknown) => void): void {
+    try {
+        const result = fn();
+        if (result && typeof result.then === "function") {
+            result.then(undefined, onError);
+        }
+    } catch (error) {
+        onError(error);
+    }
+}
+
+const noop: DisposeFn = () => {};
+
+const DEADLINE = Symbol("deadline");
+
+/**
+ * Shared deadline for one disposeAsync() call. race() settles with DEADLINE
+ * once the timeout has passed; without a timeout it is a plain await.
+ */
+function createDeadline(ms?: number) {
+    let expired = false;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    const expiry = new Promise<typeof DEADLINE>((resolve) => {
+        if (typeof ms !== "number") return;
+        timeoutId = setTimeout(() => {
+            expired = true;
+            resolve(DEADLINE);
+        }, ms);
+    });
+
+    return {
+        isExpired: () => expired,
+        race: <T>(promise: PromiseLike<T>): Promise<T | typeof DEADLINE> =>
+            Promise.race([promise, expiry]),
+        clear: () => clearTimeout(timeoutId),
+    };
+}
 
 function createScopeInternal(
     parent: Scope | null,
-    debugMode = false
+    debugMode = false,
+    name?: string
 ): Scope {
     const controller = new AbortController();
-    const cleanups: DisposeFn[] = [];
+    const cleanups: AsyncDisposeFn[] = [];
     const children = new Set<Scope>();
+    const context = new Map<symbol, unknown>();
+    const errorHandlers: ScopeErrorHandler[] = [];
     let disposed = false;
+    let asyncDisposal: Promise<void> | null = null;
+
+    // Lifecycle pause (bfcache). A child created under a suspended parent
+    // starts suspended so it resumes together with the rest of the tree.
+    const suspendHandlers: DisposeFn[] = [];
+    const resumeHandlers: DisposeFn[] = [];
+    let suspended = parent?.isSuspended() ?? false;
+
+    // Tasks started with run() that have not settled, and whenIdle() waiters.
+    const pendingTasks = new Set<Promise<unknown>>();
+    const idleWaiters: Array<() => void> = [];
 
     const MAX_CLEANUPS_WARNING = 50;
 
-    const scope: Scope = {
-        signal: controller.signal,
+    const createChildInternal = (childDebug: boolean, childName?: string): Scope => {
+        if (disposed) {
+            log("Scope", "warn", "Attempted to create child from disposed scope", {
+                context: { path: scope.getPath() },
+            });
+            const dead = createScopeInternal(null, childDebug, childName);
+            dead.dispose(parentReason(toAbortReason(controller.signal.reason)));
+            return dead;
+        }
 
-        onDispose(fn: DisposeFn): void {
-            if (disposed) {
-                // Scope is already dead — run immediately rather than silently
-                // dropping the cleanup. This preserves the invariant that every
-                // registered cleanup always runs exactly once.
+        const child = createScopeInternal(scope, childDebug, childName);
+        children.add(child);
+
+        // When the child disposes itself independently, remove it from the
+        // parent's set so the parent won't attempt to dispose it again.
+        // This is intentional — do not remove this cleanup.
+        child.onDispose(() => children.delete(child));
+
+        return child;
+    };
+
+    const lookupContext = (id: symbol): { value: unknown } | undefined => {
+        if (context.has(id)) return { value: context.get(id) };
+        return parent ? internals.get(parent)?.lookupContext(id) : undefined;
+    };
+
+    const handleError = (error: unknown, source: ScopeErrorSource, origin: Scope): boolean => {
+        if (errorHandlers.length === 0) {
+            return parent
+                ? internals.get(parent)?.handleError(error, source, origin) ?? false
+                : false;
+        }
+
+        for (const handler of [...errorHandlers]) {
+            try {
+                handler(error, { source, scope: origin });
+            } catch (rethrown) {
+                // A boundary that throws hands the (possibly new) error to
+                // the next boundary up, like a rethrow from a catch block.
+                const bubbled = parent
+                    ? internals.get(parent)?.handleError(rethrown, source, origin) ?? false
+                    : false;
+                if (!bubbled) {
+                    log("Scope", "error", "Unhandled error rethrown by error boundary", {
+                        error:   rethrown,
+                        context: { source, path: origin.getPath() },
+                    });
+                }
+            }
+        }
+        return true;
+    };
+
+    // Route a failure through the boundary, falling back to the logger.
+    const reportOrLog = (error: unknown, message: string): void => {
+        if (!scope.reportError(error, "scope")) {
+            log("Scope", "error", message, { error, context: { path: scope.getPath() } });
+        }
+    };
+
+    const cleanupErrorHandler = (message: string) => (error: unknown): void => {
+        reportOrLog(error, message);
+    };
+
+    const runLifecycleHandler = (fn: DisposeFn, message: string): void => {
+        try {
+            fn();
+        } catch (error) {
+            reportOrLog(error, message);
+        }
+    };
+
+    // Add to a handler list, returning a remover. No-op on a dead scope —
+    // it will never suspend or resume again.
+    const addHandler = (list: DisposeFn[], fn: DisposeFn): DisposeFn => {
+        if (disposed) return noop;
+        list.push(fn);
+        return () => {
+            const index = list.indexOf(fn);
+            if (index !== -1) list.splice(index, 1);
+        };
+    };
+
+    const register = (fn: AsyncDisposeFn): DisposeFn => {
+        if (disposed) {
+            // Scope is already dead — run immediately rather than silently
+            // dropping the cleanup. This preserves the invariant that every
+            // registered cleanup always runs exactly once.
+            runDetached(fn, cleanupErrorHandler("Error in immediate dispose callback"));
+            return noop;
+        }
+
+        cleanups.push(fn);
+
+        if (debugMode && cleanups.length > MAX_CLEANUPS_WARNING) {
+            log(
+                "Scope",
+                "warn",
+                `Possible cleanup leak: ${cleanups.length} cleanups registered (max: ${MAX_CLEANUPS_WARNING})`,
+                { context: { path: scope.getPath() } }
+            );
+        }
+
+        return () => {
+            // Never splice while disposal is walking the array.
+            if (disposed) return;
+            const index = cleanups.lastIndexOf(fn);
+            if (index !== -1) cleanups.splice(index, 1);
+        };
+    };
+
+    // Register cancel as a cleanup and return a release function that cancels
+    // and unregisters in one step. Timers call release when they fire, so
+    // finished timers never leave a cleanup behind on a long-lived scope.
+    const track = (cancel: () => void): DisposeFn => {
+        const unregister = register(cancel);
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+            unregister();
+            cancel();
+        };
+    };
+
+    const runAsyncDisposal = async (reason: ScopeAbortError, timeout?: number): Promise<void> => {
+        const errors: unknown[] = [];
+        const deadline = createDeadline(timeout);
+
+        const collect = (error: unknown): void => {
+            if (error instanceof ScopeDisposeError) errors.push(...error.errors);
+            else errors.push(error);
+        };
+
+        try {
+            // 1. Children first, one subtree at a time — same order as dispose().
+            //    Once the deadline passes, the rest are disposed synchronously.
+            const childReason = parentReason(reason);
+            for (const child of Array.from(children)) {
+                if (deadline.isExpired()) {
+                    child.dispose(childReason);
+                    continue;
+                }
+                const pending = child.disposeAsync({ reason: childReason });
                 try {
-                    fn();
+                    const settled = await deadline.race(pending);
+                    if (settled === DEADLINE) {
+                        // Still disposing — report what fails after we stop waiting.
+                        const report = cleanupErrorHandler("Error in child cleanup function");
+                        pending.catch((error: unknown) => {
+                            if (error instanceof ScopeDisposeError && error.errors.length > 0) error.errors.forEach(report);
+                            else report(error);
+                        });
+                    }
                 } catch (error) {
-                    console.error("[Scope] Error in immediate dispose callback:", error);
+                    collect(error);
                 }
-                return;
             }
+            children.clear();
 
-            cleanups.push(fn);
+            // 2. Abort async work.
+            controller.abort(reason);
 
-            if (debugMode && cleanups.length > MAX_CLEANUPS_WARNING) {
-                console.warn(
-                    `[Scope] Possible cleanup leak: ${cleanups.length} cleanups registered (max: ${MAX_CLEANUPS_WARNING})`
-                );
+            // 3. LIFO cleanups, each awaited before the next starts so that
+            //    dependent cleanups still see their dependencies alive.
+            for (let i = cleanups.length - 1; i >= 0; i--) {
+                const fn = cleanups[i];
+                if (deadline.isExpired()) {
+                    runDetached(fn, cleanupErrorHandler("Error in cleanup function"));
+                    continue;
+                }
+                try {
+                    const result = fn();
+                    if (result && typeof result.then === "function") {
+                        const pending = Promise.resolve(result);
+                        const settled = await deadline.race(pending);
+                        if (settled === DEADLINE) {
+                            // Still running — keep its failure observable.
+                            pending.catch(cleanupErrorHandler("Error in cleanup function"));
+                        }
+                    }
+                } catch (error) {
+                    collect(error);
+                }
             }
-        },
+            cleanups.length = 0;
+            context.clear();
+            errorHandlers.length = 0;
+            suspendHandlers.length = 0;
+            resumeHandlers.length = 0;
+        } finally {
+            deadline.clear();
+        }
 
-        createChild(): Scope {
-            if (disposed) {
-                console.warn("[Scope] Attempted to create child from disposed scope");
-                const dead = createScopeInternal(null, debugMode);
-                dead.dispose();
-                return dead;
-            }
+        const timedOut = deadline.isExpired();
+        if (errors.length > 0 || timedOut) {
+            throw new ScopeDisposeError(
+                errors,
+                timedOut,
+                timedOut
+                    ? `[Scope] Async disposal exceeded ${timeout}ms (${errors.length} cleanup(s) failed)`
+                    : `[Scope] ${errors.length} cleanup(s) failed during async disposal`
+            );
+        }
+    };
 
-            const child = createScopeInternal(scope, debugMode);
-            children.add(child);
+    const scope: Scope = {
+        name,
+        signal: controller.signal,
 
-            // When the child disposes itself independently, remove it from the
-            // parent's set so the parent won't attempt to dispose it again.
-            // This is intentional — do not remove this cleanup.
-            child.onDispose(() => children.delete(child));
+        onDispose(fn: DisposeFn): DisposeFn {
+            return register(fn);
+        },
 
-            return child;
+        onDisposeAsync(fn: AsyncDisposeFn): DisposeFn {
+            return register(fn);
+        },
+
+        createChild(childName?: string): Scope {
+            return createChildInternal(debugMode, childName);
         },
 
-        dispose(): void {
+        dispose(reason?: unknown): void {
             if (disposed) return;
             disposed = true;
 
+            // Resolved up front — children are disposed before this scope's
+            // signal aborts, so they can't read it from the signal yet.
+            const abortReason = toAbortReason(reason);
+
             // 1. Dispose children first (depth-first, order within set is
             //    insertion order — predictable but not guaranteed meaningful).
+            const childReason = parentReason(abortReason);
             for (const child of children) {
-                child.dispose();
+                child.dispose(childReason);
             }
             children.clear();
 
             // 2. Abort async work — signals fetch(), refresh loops, etc.
-            controller.abort();
+            controller.abort(abortReason);
 
             // 3. Run cleanups in LIFO order. If B depends on A, B was registered
-            //    after A, so B must clean up before A.
+            //    after A, so B must clean up before A. Async cleanups are
+            //    started but not awaited — use disposeAsync() to wait for them.
             for (let i = cleanups.length - 1; i >= 0; i--) {
+                runDetached(cleanups[i], cleanupErrorHandler("Error in cleanup function"));
+            }
+            cleanups.length = 0;
+
+            // 4. Drop provided values and boundaries — cleanups above may still
+            //    inject or report through them. Later errors go to the parent.
+            context.clear();
+            errorHandlers.length = 0;
+            suspendHandlers.length = 0;
+            resumeHandlers.length = 0;
+        },
+
+        disposeAsync(options?: DisposeAsyncOptions): Promise<void> {
+            // Repeat calls share the in-progress disposal. A scope already
+            // disposed synchronously has nothing left to wait for.
+            if (asyncDisposal) return asyncDisposal;
+            if (disposed) return Promise.resolve();
+            disposed = true;
+
+            asyncDisposal = runAsyncDisposal(toAbortReason(options?.reason), options?.timeout);
+            return asyncDisposal;
+        },
+
+        [disposeSymbol](): void {
+            scope.dispose();
+        },
+
+        [asyncDisposeSymbol](): Promise<void> {
+            return scope.disposeAsync();
+        },
+
+        use<T extends ScopeResource>(resource: T): T {
+            const candidate = resource as Partial<DisposableLike & AsyncDisposableLike>;
+
+            if (typeof candidate[asyncDisposeSymbol] === "function") {
+                register(() => candidate[asyncDisposeSymbol]!());
+            } else if (typeof candidate[disposeSymbol] === "function") {
+                register(() => candidate[disposeSymbol]!());
+            } else if (typeof resource === "function") {
+                register(resource as DisposeFn);
+            } else {
+                throw new TypeError(
+                    "[Scope] use() expects a disposable (Symbol.dispose / Symbol.asyncDispose) or a cleanup function"
+                );
+            }
+
+            return resource;
+        },
+
+        run<T>(task: ScopeTask<T>): Promise<T> {
+            if (disposed) return Promise.reject(toAbortReason(controller.signal.reason));
+
+            // Every task gets its own child scope. It is disposed when the
+            // task settles, so anything the task started through it (fetches,
+            // timers, nested runs) ends with the task.
+            const taskScope = scope.createChild("task");
+
+            const promise = new Promise<T>((resolve, reject) => {
+                // Settle as soon as the task is cancelled, even if the task
+                // itself ignores its signal.
+                taskScope.signal.addEventListener(
+                    "abort",
+                    () => reject(taskScope.signal.reason),
+                    { once: true }
+                );
+
                 try {
-                    cleanups[i]();
+                    Promise.resolve(task(taskScope.signal, taskScope)).then(resolve, reject);
                 } catch (error) {
-                    console.error("[Scope] Error in cleanup function:", error);
+                    reject(error);
+                }
+            });
+
+            pendingTasks.add(promise);
+
+            const settle = (): void => {
+                pendingTasks.delete(promise);
+                taskScope.dispose();
+                if (pendingTasks.size === 0) {
+                    for (const resolve of idleWaiters.splice(0)) resolve();
                 }
+            };
+            promise.then(settle, settle);
+
+            return promise;
+        },
+
+        whenIdle(): Promise<void> {
+            if (pendingTasks.size === 0) return Promise.resolve();
+            return new Promise<void>((resolve) => idleWaiters.push(resolve));
+        },
+
+        race<T>(tasks: Array<ScopeTask<T>>): Promise<T> {
+            // Losers are aborted by the enclosing run(): once the race
+            // settles, its task scope — and every branch under it — is disposed.
+            return scope.run((_signal, group) =>
+                Promise.race(tasks.map((task) => group.run(task)))
+            );
+        },
+
+        all<T>(tasks: Array<ScopeTask<T>>): Promise<T[]> {
+            return scope.run((_signal, group) =>
+                Promise.all(tasks.map((task) => group.run(task)))
+            );
+        },
+
+        any<T>(tasks: Array<ScopeTask<T>>): Promise<T> {
+            return scope.run((_signal, group) =>
+                firstFulfilled(tasks.map((task) => group.run(task)))
+            );
+        },
+
+        timeout<T>(task: ScopeTask<T>, ms: number): Promise<T> {
+            return scope.run((_signal, group) => {
+                const limited = group.withTimeout(ms);
+                return new Promise<T>((resolve, reject) => {
+                    // Reject with the deadline's own reason. The inner task
+                    // would only see it wrapped as a "parent" disposal.
+                    limited.signal.addEventListener(
+                        "abort",
+                        () => reject(limited.signal.reason),
+                        { once: true }
+                    );
+                    limited.run(task).then(resolve, reject);
+                });
+            });
+        },
+
+        withTimeout(ms: number): Scope {
+            const child = scope.createChild();
+            child.setTimeout(() => {
+                child.dispose(new ScopeAbortError(
+                    "timeout",
+                    `[Scope] Scope timed out after ${ms}ms`
+                ));
+            }, ms);
+            return child;
+        },
+
+        provide<T>(key: ContextKey<T>, value: T): void {
+            if (disposed) {
+                log("Scope", "warn", `Attempted to provide "${key.name}" on a disposed scope`, {
+                    context: { path: scope.getPath() },
+                });
+                return;
             }
-            cleanups.length = 0;
+            context.set(key.id, value);
+        },
+
+        inject<T>(key: ContextKey<T>): T {
+            const found = lookupContext(key.id);
+            if (found) return found.value as T;
+            if (key.hasDefault) return key.defaultValue as T;
+            throw new Error(
+                `[Scope] No provider for "${key.name}" found from "${scope.getPath()}" up`
+            );
+        },
+
+        hasContext<T>(key: ContextKey<T>): boolean {
+            return lookupContext(key.id) !== undefined;
+        },
+
+        onSuspend(fn: DisposeFn): DisposeFn {
+            return addHandler(suspendHandlers, fn);
+        },
+
+        onResume(fn: DisposeFn): DisposeFn {
+            return addHandler(resumeHandlers, fn);
+        },
+
+        suspend(): void {
+            if (disposed || suspended) return;
+            suspended = true;
+
+            // Same order as dispose(): children first, then own handlers LIFO.
+            for (const child of Array.from(children)) {
+                child.suspend();
+            }
+            for (let i = suspendHandlers.length - 1; i >= 0; i--) {
+                runLifecycleHandler(suspendHandlers[i], "Error in suspend handler");
+            }
+        },
+
+        resume(): void {
+            if (disposed || !suspended) return;
+            suspended = false;
+
+            // Mirror image of suspend(): own handlers in registration order,
+            // then children — parents are ready before their children wake.
+            for (const fn of [...resumeHandlers]) {
+                runLifecycleHandler(fn, "Error in resume handler");
+            }
+            for (const child of Array.from(children)) {
+                child.resume();
+            }
+        },
+
+        isSuspended(): boolean {
+            return suspended;
+        },
+
+        onError(handler: ScopeErrorHandler): DisposeFn {
+            if (disposed) return noop;
+            errorHandlers.push(handler);
+            return () => {
+                const index = errorHandlers.indexOf(handler);
+                if (index !== -1) errorHandlers.splice(index, 1);
+            };
+        },
+
+        reportError(error: unknown, source: ScopeErrorSource = "user"): boolean {
+            return handleError(error, source, scope);
+        },
+
+        setTimeout(fn: () => void, ms = 0): DisposeFn {
+            if (disposed) return noop;
+            let release = noop;
+            const id = globalThis.setTimeout(() => {
+                release();
+                if (!controller.signal.aborted) fn();
+            }, ms);
+            release = track(() => globalThis.clearTimeout(id));
+            return release;
+        },
+
+        setInterval(fn: () => void, ms: number): DisposeFn {
+            if (disposed) return noop;
+            const id = globalThis.setInterval(() => {
+                if (!controller.signal.aborted) fn();
+            }, ms);
+            return track(() => globalThis.clearInterval(id));
+        },
+
+        requestAnimationFrame(fn: (time: number) => void): DisposeFn {
+            if (disposed) return noop;
+            let release = noop;
+
+            // Outside the browser (tests, workers without rAF) fall back to a
+            // ~60fps timeout so callers don't need to branch.
+            if (typeof globalThis.requestAnimationFrame !== "function") {
+                return scope.setTimeout(() => fn(Date.now()), 16);
+            }
+
+            const id = globalThis.requestAnimationFrame((time) => {
+                release();
+                if (!controller.signal.aborted) fn(time);
+            });
+            release = track(() => globalThis.cancelAnimationFrame(id));
+            return release;
+        },
+
+        requestIdleCallback(
+            fn: (deadline: IdleDeadline) => void,
+            options?: IdleRequestOptions
+        ): DisposeFn {
+            if (disposed) return noop;
+            let release = noop;
+
+            // Safari has no requestIdleCallback. Approximate it with a short
+            // timeout and a 50ms budget — the same shim the spec recommends.
+            if (typeof globalThis.requestIdleCallback !== "function") {
+                return scope.setTimeout(() => {
+                    const start = Date.now();
+                    fn({
+                        didTimeout:    false,
+                        timeRemaining: () => Math.max(0, 50 - (Date.now() - start)),
+                    });
+                }, 1);
+            }
+
+            const id = globalThis.requestIdleCallback((deadline) => {
+                release();
+                if (!controller.signal.aborted) fn(deadline);
+            }, options);
+            release = track(() => globalThis.cancelIdleCallback(id));
+            return release;
+        },
+
+        sleep(ms: number): Promise<void> {
+            return new Promise<void>((resolve, reject) => {
+                // Reject with the scope's ScopeAbortError, as run() does, so
+                // callers can tell why the scope went away.
+                if (disposed) {
+                    reject(toAbortReason(controller.signal.reason));
+                    return;
+                }
+
+                const onAbort = () => reject(toAbortReason(controller.signal.reason));
+
+                controller.signal.addEventListener("abort", onAbort, { once: true });
+
+                scope.setTimeout(() => {
+                    controller.signal.removeEventListener("abort", onAbort);
+                    resolve();
+                }, ms);
+            });
+        },
+
+        getChildren(): readonly Scope[] {
+            return Array.from(children);
+        },
+
+        cleanupCount(): number {
+            return cleanups.length;
+        },
+
+        getPath(): string {
+            const own = name ?? ANONYMOUS_SCOPE;
+            return parent ? `${parent.getPath()}/${own}` : own;
+        },
+
+        snapshot(): ScopeSnapshot {
+            return {
+                name,
+                path:     scope.getPath(),
+                disposed,
+                suspended,
+                cleanups: cleanups.length,
+                children: Array.from(children, (child) => child.snapshot()),
+            };
         },
     };
 
     // Wire parent disposal to dispose this child automatically.
     // The child's own onDispose above handles removing itself from the
     // parent's children set, so there is no double-dispose risk.
-    parent?.onDispose(() => scope.dispose());
+    // If the child goes first, it unregisters that cleanup so short-lived
+    // children don't accumulate on a long-lived parent.
+    if (parent) {
+        register(parent.onDispose(() => scope.dispose(parentReason(toAbortReason(parent.signal.reason)))));
+    }
+
+    internals.set(scope, { createChild: createChildInternal, lookupContext, handleError });
 
     return scope;
 }
@@ -134,20 +790,33 @@ function getWindowScope(): Scope {
         );
     }
 
-    windowScope = createScopeInternal(null);
+    windowScope = createScopeInternal(null, false, "window");
 
-    const disposeAll = (): void => {
+    // pagehide with persisted = true means the page is entering the
+    // back/forward cache and may come back — suspend instead of disposing.
+    // Only a non-persisted pagehide is a real unload. beforeunload is not
+    // used: it fires before bfcache entry too, and merely registering it
+    // makes the page ineligible for bfcache in some browsers.
+    const onPageHide = (event: PageTransitionEvent): void => {
         if (!windowScope) return;
-        windowScope.dispose();
+
+        if (event.persisted) {
+            windowScope.suspend();
+            return;
+        }
+
+        window.removeEventListener("pagehide", onPageHide);
+        window.removeEventListener("pageshow", onPageShow);
+        windowScope.dispose(new ScopeAbortError("unload", "[Scope] Page unloaded"));
         windowScope = null;
     };
 
-    // { once: true } ensures listeners remove themselves after firing,
-    // preventing phantom listeners if the window scope is recreated.
-    // Both events are handled because browser support varies — pagehide
-    // is preferred for bfcache-aware cleanup, beforeunload as fallback.
-    window.addEventListener("pagehide",     disposeAll, { once: true });
-    window.addEventListener("beforeunload", disposeAll, { once: true });
+    const onPageShow = (event: PageTransitionEvent): void => {
+        if (event.persisted) windowScope?.resume();
+    };
+
+    window.addEventListener("pagehide", onPageHide);
+    window.addEventListener("pageshow", onPageShow);
 
     return windowScope;
 }
@@ -158,13 +827,20 @@ function getWindowScope(): Scope {
 
 /**
  * Create a new scope attached to the window scope.
- * Automatically disposed when the page is hidden or unloaded.
+ * Automatically disposed when the page is unloaded.
+ *
+ * When the page enters the back/forward cache instead, the scope is
+ * suspended (onSuspend handlers run, refresh loops pause) and resumed when
+ * the page is shown again — views survive the round trip.
  *
  * For testing or non-browser environments, use createRootScope() instead.
+ *
+ * @example
+ * const scope = createScope({ name: "settings-page" });
  */
-export function createScope(options?: { debug?: boolean }): Scope {
+export function createScope(options?: ScopeOptions): Scope {
     const root = getWindowScope();
-    return createScopeInternal(root, options?.debug ?? false);
+    return internals.get(root)!.createChild(options?.debug ?? isDebugEnabled(), options?.name);
 }
 
 /**
@@ -182,8 +858,289 @@ export function createScope(options?: { debug?: boolean }): Scope {
  * // ... do work ...
  * scope.dispose();
  */
-export function createRootScope(options?: { debug?: boolean }): Scope {
-    return createScopeInternal(null, options?.debug ?? false);
+export function createRootScope(options?: ScopeOptions): Scope {
+    const scope = createScopeInternal(null, options?.debug ?? isDebugEnabled(), options?.name);
+    trackRootScope(scope);
+    return scope;
+}
+
+/**
+ * Create a root scope that is disposed as soon as any source ends: a Scope
+ * is disposed, or an AbortSignal aborts.
+ *
+ * The linked scope is a root — it is not a child of any source and does not
+ * appear under them in snapshots. Its signal.reason records which source
+ * ended it ("parent" for a Scope, "signal" for an AbortSignal). If a source
+ * has already ended, the scope is returned already disposed.
+ *
+ * You are responsible for disposing it if no source ever ends.
+ *
+ * @example
+ * const scope = createLinkedScope(viewScope, request.signal);
+ * await fetchJson("/api/report", { scope });
+ */
+export function createLinkedScope(
+    ...sources: Array<Scope | AbortSignal>
+): Scope {
+    const linked = createScopeInternal(null, false, "linked");
+    trackRootScope(linked);
+
+    for (const source of sources) {
+        const isSignal = source instanceof AbortSignal;
+        const signal   = isSignal ? source : source.signal;
+
+        const end = (): void => {
+            linked.dispose(isSignal
+                ? new ScopeAbortError("signal", "[Scope] Linked signal aborted", signal.reason)
+                : parentReason(toAbortReason(signal.reason)));
+        };
+
+        if (signal.aborted) {
+            end();
+            break;
+        }
+
+        signal.addEventListener("abort", end, { once: true });
+        linked.onDispose(() => signal.removeEventListener("abort", end));
+    }
+
+    return linked;
+}
+
+/**
+ * Create a typed key for scope.provide() / scope.inject().
+ *
+ * Keys are compared by identity, not by name — two keys with the same name
+ * are distinct. The name is used only in error messages. Define keys once at
+ * module level and share them.
+ *
+ * @param defaultValue - Returned by inject() when no ancestor provides a
+ *                       value. Without one, inject() throws instead.
+ *
+ * @example
+ * export const ApiClientKey = createContextKey<ApiClient>("api");
+ * export const FlagsKey     = createContextKey<Flags>("flags", {});
+ *
+ * appScope.provide(ApiClientKey, new ApiClient());
+ * const api = childScope.inject(ApiClientKey);
+ */
+export function createContextKey<T>(name: string, ...defaultValue: [] | [T]): ContextKey<T> {
+    return {
+        id:           Symbol(name),
+        name,
+        hasDefault:   defaultValue.length > 0,
+        defaultValue: defaultValue[0],
+    };
+}
+
+/**
+ * Snapshot the live scope tree from the window scope down.
+ *
+ * Returns null if the window scope has not been created yet (no createScope()
+ * call so far) or outside a browser. Root scopes from createRootScope() are
+ * not attached to the window scope — call scope.snapshot() on them directly.
+ *
+ * @example
+ * console.log(JSON.stringify(snapshotScopeTree(), null, 2));
+ */
+export function snapshotScopeTree(): ScopeSnapshot | null {
+    return windowScope?.snapshot() ?? null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Leak detection
+//
+// Opt-in. Root scopes put disposal on the caller, and Model / Collection
+// create one silently when no scope is passed — a forgotten destroy() is
+// invisible. While enabled, every new root scope is tracked by WeakRef with
+// its creation stack, and reported if it is garbage-collected or outlives
+// maxAge without being disposed. Scopes created before enabling are not
+// tracked. The window scope is never tracked — it lives as long as the page.
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface TrackedRoot {
+    ref: WeakRef<Scope>;
+    name: string | undefined;
+    createdAt: number;
+    stack: string | undefined;
+    reportedAge: boolean;
+}
+
+interface LeakDetector {
+    tracked: Map<number, TrackedRoot>;
+    registry: FinalizationRegistry<number> | null;
+    timer: ReturnType<typeof setInterval> | undefined;
+    onLeak: (report: ScopeLeakReport) => void;
+    captureStack: boolean;
+}
+
+let leakDetector: LeakDetector | null = null;
+let nextTrackedId = 0;
+
+const defaultLeakReporter = (report: ScopeLeakReport): void => {
+    const what = report.reason === "collected"
+        ? "was garbage-collected without being disposed"
+        : `is still alive after ${report.age}ms`;
+    log("Scope", "warn", `Possible leak: root scope "${report.name ?? ANONYMOUS_SCOPE}" ${what}`, {
+        context: { ...report },
+    });
+};
+
+function captureCreationStack(): string | undefined {
+    // Drop the "Error" line and the three internal frames (this function,
+    // trackRootScope and the public factory) so the first frame shown is
+    // the code that created the scope. For a scope a Model or Collection
+    // created, that is the library constructor; the caller is the next frame.
+    return new Error().stack?.split("\n").slice(4).join("\n");
+}
+
+function trackRootScope(scope: Scope): void {
+    const detector = leakDetector;
+    if (!detector || !supportsWeakRefs()) return;
+
+    const id = nextTrackedId++;
+    detector.tracked.set(id, {
+        ref:         new WeakRef(scope),
+        name:        scope.name,
+        createdAt:   Date.now(),
+        stack:       detector.captureStack ? captureCreationStack() : undefined,
+        reportedAge: false,
+    });
+    detector.registry?.register(scope, id, scope);
+
+    // This closure does hold the scope (for unregister), but it lives in the
+    // scope's own cleanups, so it keeps nothing alive the scope doesn't.
+    scope.onDispose(() => {
+        detector.tracked.delete(id);
+        detector.registry?.unregister(scope);
+    });
+}
+
+function supportsWeakRefs(): boolean {
+    return typeof WeakRef === "function" && typeof FinalizationRegistry === "function";
+}
+
+/**
+ * Start reporting root scopes that are never disposed.
+ *
+ * Covers scopes from createRootScope() and createLinkedScope(), including
+ * the ones Model and Collection create when no scope is passed. Dev only —
+ * capturing a stack per root scope is not free.
+ *
+ * Returns a function that turns detection off again. Calling this while
+ * detection is already on replaces the previous configuration and starts
+ * tracking afresh.
+ *
+ * Does nothing where WeakRef / FinalizationRegistry are unavailable.
+ *
+ * @example
+ * const stop = enableLeakDetection({ maxAge: 60_000 });
+ * // ... later, in the console:
+ * console.table(getLiveRootScopes());
+ */
+export function enableLeakDetection(options: LeakDetectionOptions = {}): DisposeFn {
+    disableLeakDetection();
+
+    const {
+        maxAge,
+        checkInterval = Math.min(maxAge ?? 10_000, 10_000),
+        onLeak        = defaultLeakReporter,
+        captureStack  = true,
+    } = options;
+
+    if (!supportsWeakRefs()) return noop;
+
+    const detector: LeakDetector = {
+        tracked: new Map(),
+        registry: null,
+        timer: undefined,
+        onLeak,
+        captureStack,
+    };
+
+    detector.registry = new FinalizationRegistry<number>((id) => {
+        const entry = detector.tracked.get(id);
+        if (!entry) return;
+        detector.tracked.delete(id);
+        reportLeak(detector, entry, "collected");
+    });
+
+    if (typeof maxAge === "number") {
+        detector.timer = setInterval(() => {
+            const now = Date.now();
+            for (const entry of detector.tracked.values()) {
+                if (entry.reportedAge || now - entry.createdAt < maxAge) continue;
+                entry.reportedAge = true;
+                reportLeak(detector, entry, "age");
+            }
+        }, checkInterval);
+
+        // Never keep a Node process alive just to look for leaks.
+        (detector.timer as { unref?: () => void }).unref?.();
+    }
+
+    leakDetector = detector;
+    return () => {
+        if (leakDetector === detector) disableLeakDetection();
+    };
+}
+
+function disableLeakDetection(): void {
+    const detector = leakDetector;
+    if (!detector) return;
+    leakDetector = null;
+
+    if (detector.timer !== undefined) clearInterval(detector.timer);
+    for (const entry of detector.tracked.values()) {
+        const scope = entry.ref.deref();
+        if (scope) detector.registry?.unregister(scope);
+    }
+    detector.tracked.clear();
+}
+
+function reportLeak(
+    detector: LeakDetector,
+    entry: TrackedRoot,
+    reason: ScopeLeakReport["reason"]
+): void {
+    try {
+        detector.onLeak({
+            reason,
+            name:      entry.name,
+            createdAt: entry.createdAt,
+            age:       Date.now() - entry.createdAt,
+            stack:     entry.stack,
+        });
+    } catch (error) {
+        log("Scope", "error", "Error in onLeak handler", { error });
+    }
+}
+
+/**
+ * List root scopes created while leak detection was on that are still alive
+ * and not disposed, oldest first. Empty when detection is off.
+ *
+ * The returned entries hold the scopes strongly — don't keep the array.
+ */
+export function getLiveRootScopes(): LiveRootScope[] {
+    if (!leakDetector) return [];
+
+    const now  = Date.now();
+    const live: LiveRootScope[] = [];
+
+    for (const entry of leakDetector.tracked.values()) {
+        const scope = entry.ref.deref();
+        if (!scope || scope.signal.aborted) continue;
+        live.push({
+            scope,
+            name:      entry.name,
+            createdAt: entry.createdAt,
+            age:       now - entry.createdAt,
+            stack:     entry.stack,
+        });
+    }
+
+    return live.sort((a, b) => a.createdAt - b.createdAt);
 }
 
 /**
@@ -0,0 +1,154 @@
+/*
+ * BoneMarrow
+ * Copyright (c) 2025-present Karthick Raj
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ */
+
+import {DisposeFn, ListenerOptions, RateLimitOptions, Scope} from "../types/index";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Subscription options (internal)
+//
+// Shared by TypedEmitter, Model and Collection: normalizing the
+// `Scope | options` argument, and the debounce / throttle / batch wrappers.
+// Timers go through the subscription's scope when it has one, so disposal
+// cancels anything pending.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Accept either a Scope or an options object as the trailing argument. */
+export function toListenerOptions<O extends { scope?: Scope }>(arg: Scope | O | undefined): O {
+    if (!arg) return {} as O;
+    return typeof (arg as Scope).onDispose === "function"
+        ? { scope: arg as Scope } as O
+        : arg as O;
+}
+
+type Delay = number | "microtask" | "animationFrame";
+
+const noop = () => {};
+
+/** Run fn once after delay. Returns a DisposeFn that cancels it. */
+function schedule(delay: Delay, fn: () => void, scope?: Scope): DisposeFn {
+    if (delay === "microtask") {
+        let cancelled = false;
+        queueMicrotask(() => {
+            if (!cancelled && !scope?.signal.aborted) fn();
+        });
+        return () => { cancelled = true; };
+    }
+
+    if (scope) {
+        return delay === "animationFrame"
+            ? scope.requestAnimationFrame(() => fn())
+            : scope.setTimeout(fn, delay);
+    }
+
+    if (delay === "animationFrame" && typeof globalThis.requestAnimationFrame === "function") {
+        const id = globalThis.requestAnimationFrame(() => fn());
+        return () => globalThis.cancelAnimationFrame(id);
+    }
+
+    // No rAF outside the browser — same ~60fps fallback as scope.requestAnimationFrame.
+    const id = globalThis.setTimeout(fn, delay === "animationFrame" ? 16 : delay);
+    return () => globalThis.clearTimeout(id);
+}
+
+/**
+ * Wrap a listener with its rate limit, if it has one.
+ *
+ * The wrapper is called like any listener, with the emission's args.
+ * Payloads are combined with merge until the call is due.
+ * Deferred calls run outside the emission, so their errors go to onError.
+ * cancel() drops anything pending; call it when the listener is removed.
+ */
+export function rateLimit(
+    fn: (...args: any[]) => unknown,
+    options: ListenerOptions<any>,
+    onError: (error: unknown) => void,
+    scope?: Scope
+): { fn: (...args: any[]) => void; cancel: DisposeFn } | undefined {
+    const { debounce, throttle, batch } = options as RateLimitOptions;
+    const set = [debounce, throttle, batch].filter((value) => value !== undefined);
+
+    if (set.length === 0) return undefined;
+    if (set.length > 1) {
+        throw new Error("[Emitter] Use only one of debounce, throttle or batch per listener");
+    }
+
+    const merge = options.merge ?? ((_pending: unknown[], next: unknown[]) => next);
+
+    let pending: unknown[] | undefined;
+    let cancelTimer: DisposeFn = noop;
+    let scheduled = false;
+
+    const flush = () => {
+        if (!pending) return;
+        const args = pending;
+        pending = undefined;
+
+        try {
+            fn(...args);
+        } catch (error) {
+            onError(error);
+        }
+    };
+
+    const collect = (args: unknown[]) => {
+        pending = pending ? merge(pending, args) : args;
+    };
+
+    let wrapper: (...args: unknown[]) => void;
+
+    if (throttle !== undefined) {
+        // Leading call, then at most one trailing call per window.
+        const open = () => {
+            scheduled = false;
+            if (!pending) return;
+            flush();
+            scheduled = true;
+            cancelTimer = schedule(throttle, open, scope);
+        };
+
+        wrapper = (...args) => {
+            collect(args);
+            if (scheduled) return;
+            flush();
+            scheduled = true;
+            cancelTimer = schedule(throttle, open, scope);
+        };
+    } else if (debounce !== undefined) {
+        wrapper = (...args) => {
+            collect(args);
+            cancelTimer();
+            cancelTimer = schedule(debounce, flush, scope);
+        };
+    } else {
+        wrapper = (...args) => {
+            collect(args);
+            if (scheduled) return;
+            scheduled = true;
+            cancelTimer = schedule(batch!, () => {
+                scheduled = false;
+                flush();
+            }, scope);
+        };
+    }
+
+    return {
+        fn: wrapper,
+        cancel: () => {
+            pending = undefined;
+            scheduled = false;
+            cancelTimer();
+        },
+    };
+}
@@ -0,0 +1,161 @@
+/*
+ * BoneMarrow
+ * Copyright (c) 2025-present Karthick Raj
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ */
+
+import {Progress, ProgressDirection, ProgressTarget, Scope} from "../types/index";
+import {log} from "./config";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request transports (internal)
+//
+// How the fetch utility puts a request on the wire. Both take the same
+// arguments as fetch() and resolve with a Response, so retry, timeout and
+// error handling above them do not care which one ran.
+//
+// fetch() is the default; with progress it counts the body as it streams.
+// fetch() cannot report upload progress, so uploads that want it go through
+// XMLHttpRequest, whose response is rebuilt as a Response on load.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+/** Statuses a Response must be constructed without a body for. */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/** fetch(), counting the response body into progress when given. */
+export function fetchTransport(progress?: ProgressTarget, scope?: Scope): Transport {
+    if (!progress) return (url, init) => fetch(url, init);
+
+    return async (url, init) => {
+        const res = await fetch(url, init);
+        if (!res.body) return res;
+
+        const length = Number(res.headers.get("Content-Length"));
+        const meter  = createMeter("download", progress, scope, length > 0 ? length : undefined);
+        let loaded = 0;
+
+        const counted = res.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+                loaded += chunk.byteLength;
+                meter(loaded);
+                controller.enqueue(chunk);
+            },
+        }));
+
+        return new Response(counted, {
+            status:     res.status,
+            statusText: res.statusText,
+            headers:    res.headers,
+        });
+    };
+}
+
+/**
+ * XMLHttpRequest behind a fetch()-shaped function, reporting upload and
+ * download progress. init.signal aborts it; the rejection is the signal's
+ * reason, as with fetch(). A network failure rejects with a TypeError, also
+ * as fetch() does, so retry policies treat both transports alike.
+ */
+export function xhrTransport(progress: ProgressTarget, scope?: Scope): Transport {
+    return (url, init) => new Promise<Response>((resolve, reject) => {
+        const { signal } = init;
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        const xhr = new XMLHttpRequest();
+        xhr.open(init.method ?? "GET", url);
+        xhr.responseType    = "blob";
+        xhr.withCredentials = init.credentials === "include";
+        new Headers(init.headers).forEach((value, name) => xhr.setRequestHeader(name, value));
+
+        const upload   = createMeter("upload", progress, scope);
+        const download = createMeter("download", progress, scope);
+        xhr.upload.onprogress = (e) => upload(e.loaded, e.lengthComputable ? e.total : undefined);
+        xhr.onprogress        = (e) => download(e.loaded, e.lengthComputable ? e.total : undefined);
+
+        const onAbort = () => xhr.abort();
+        signal?.addEventListener("abort", onAbort, { once: true });
+        const done = () => signal?.removeEventListener("abort", onAbort);
+
+        xhr.onload = () => {
+            done();
+            resolve(new Response(NULL_BODY_STATUSES.has(xhr.status) ? null : xhr.response, {
+                status:     xhr.status,
+                statusText: xhr.statusText,
+                headers:    parseHeaders(xhr.getAllResponseHeaders()),
+            }));
+        };
+        xhr.onerror = () => {
+            done();
+            reject(new TypeError(`Network request to ${url} failed`));
+        };
+        xhr.onabort = () => {
+            done();
+            reject(signal?.reason ?? new DOMException("The request was aborted", "AbortError"));
+        };
+
+        xhr.send((init.body ?? null) as XMLHttpRequestBodyInit | null);
+    });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Internal
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A function to call with bytes loaded so far; it works out percent and rate
+ * and hands the Progress to the target. A throwing handler is reported, not
+ * allowed to fail the transfer.
+ */
+function createMeter(
+    direction: ProgressDirection,
+    target: ProgressTarget,
+    scope: Scope | undefined,
+    knownTotal?: number
+): (loaded: number, total?: number) => void {
+    const startedAt = Date.now();
+
+    return (loaded, total = knownTotal) => {
+        const seconds = (Date.now() - startedAt) / 1000;
+        const progress: Progress = {
+            direction,
+            loaded,
+            total,
+            // Content-Length counts encoded bytes; the body may decode larger.
+            percent: total ? Math.min(100, (loaded / total) * 100) : undefined,
+            rate:    seconds > 0 ? loaded / seconds : 0,
+        };
+
+        try {
+            if (typeof target === "function") target(progress);
+            else target.emit(direction, progress);
+        } catch (error) {
+            if (!scope?.reportError(error, "user")) {
+                log("Fetch", "error", "Error in progress handler", { error, context: { direction } });
+            }
+        }
+    };
+}
+
+/** Parse getAllResponseHeaders() output — CRLF-separated "name: value" lines. */
+function parseHeaders(raw: string): Headers {
+    const headers = new Headers();
+    for (const line of raw.trim().split(/[\r\n]+/)) {
+        const colon = line.indexOf(":");
+        if (colon > 0) headers.append(line.slice(0, colon).trim(), line.slice(colon + 1).trim());
+    }
+    return headers;
+}
@@ -0,0 +1,33 @@
+/*
+ * BoneMarrow
+ * Copyright (c) 2025-present Karthick Raj
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Shared helpers (internal)
+//
+// Tiny utilities more than one module needs, kept in one place so they
+// behave the same everywhere.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * An id unique across page loads and tabs, so one read back from persistent
+ * storage or received from another context never matches one minted here.
+ */
+export function createId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/** High-resolution milliseconds where available, for measuring durations. */
+export const now = (): number =>
+    typeof performance !== "undefined" ? performance.now() : Date.now();
@@ -14,10 +14,22 @@
  */
 
 import {TypedEmitter} from "../core/emitter";
-import {fetchJson} from "../core/fetch";
+import {fetchUnlessApplied} from "../core/applied";
 import {createRootScope} from "../core/scope";
 import {createRefresh} from "../core/refresh";
-import {AutoRefreshOptions, DisposeFn, RefreshController, Scope} from "../types/index";
+import {
+    AutoRefreshOptions,
+    DisposableFn,
+    EventControl,
+    FetchOptions,
+    ListenerOptions,
+    RefreshController,
+    Scope,
+    SubscribeOptions,
+} from "../types/index";
+import {disposeSymbol} from "../core/disposable";
+import {registerRecordable} from "../core/recordable";
+import {toListenerOptions} from "../core/subscribe";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // BoneMarrow Collection v1.2
@@ -31,6 +43,7 @@ import {AutoRefreshOptions, DisposeFn, RefreshController, Scope} from "../types/
 // ─────────────────────────────────────────────────────────────────────────────
 
 type CollectionEvents<T> = {
+    beforeRemove: [items: T[]];
     add:    [items: T[]];
     remove: [items: T[]];
     update: [items: T[]];
@@ -38,10 +51,25 @@ type CollectionEvents<T> = {
     sort:   [];
 };
 
+/** Events onChange() reports — everything that changes the data. */
+const CHANGE_EVENTS = new Set(["add", "remove", "update", "reset"]);
+
+/** Rate-limited item listeners get every item since their last call. */
+function itemOptions<T>(
+    options: Scope | SubscribeOptions | undefined
+): ListenerOptions<[items: T[]]> {
+    return {
+        ...toListenerOptions<SubscribeOptions>(options),
+        merge: ([pending], [next]) => [[...pending, ...next]],
+    };
+}
+
 export class Collection<T> {
     private items: T[] = [];
     private emitter = new TypedEmitter<CollectionEvents<T>>();
     private scope: Scope;
+    /** Cache version last applied, per URL — see fetchUnlessApplied(). */
+    private cacheVersions = new Map<string, string>();
 
     /**
      * Create a collection, optionally seeded with initial items.
@@ -62,6 +90,21 @@ export class Collection<T> {
         this.items = [...initial];
         this.scope = scope ?? createRootScope();
         this.scope.onDispose(() => this._destroy());
+
+        // Let recorders capture and replay. Only add and reset can be
+        // re-applied — recorded items are not this collection's items, so
+        // remove / update / sort are re-emitted to listeners instead.
+        registerRecordable(this, {
+            emitter: this.emitter,
+            apply: (event, args) => {
+                switch (event) {
+                    case "add":          this.add(...(args[0] as T[])); return true;
+                    case "reset":        this.reset(args[0] as T[]);    return true;
+                    case "beforeRemove": return true;
+                    default:             return false;
+                }
+            },
+        });
     }
 
     // ── Read ─────────────────────────────────────────────────────────────────
@@ -126,33 +169,43 @@ export class Collection<T> {
 
     /**
      * Remove all items matching the predicate.
-     * Iterates backwards to avoid index-shift bugs during splice.
+     * Splices backwards to avoid index-shift bugs.
      * Returns the removed items in their original order.
      * Emits "remove" only if at least one item was removed.
+     * If a beforeRemove listener vetoes, nothing is removed and [] is returned.
      */
     remove(predicate: (item: T, index: number) => boolean): T[] {
         this.checkDestroyed();
 
-        const removed: T[] = [];
+        // Match first, splice after — beforeRemove sees the full set and can
+        // veto it as a whole.
+        const indices: number[] = [];
+        this.items.forEach((item, i) => {
+            if (predicate(item, i)) indices.push(i);
+        });
 
-        for (let i = this.items.length - 1; i >= 0; i--) {
-            if (predicate(this.items[i], i)) {
-                removed.unshift(this.items[i]);
-                this.items.splice(i, 1);
-            }
-        }
+        if (indices.length === 0) return [];
+
+        const removed = indices.map((i) => this.items[i]);
+        if (this.emitter.emit("beforeRemove", removed)) return [];
 
-        if (removed.length > 0) {
-            this.emitter.emit("remove", removed);
+        for (let i = indices.length - 1; i >= 0; i--) {
+            this.items.splice(indices[i], 1);
         }
 
+        this.emitter.emit("remove", removed);
         return removed;
     }
 
+    /**
+     * Remove the item at index. Returns undefined if the index is out of
+     * range or a beforeRemove listener vetoed the removal.
+     */
     removeAt(index: number): T | undefined {
         this.checkDestroyed();
 
         if (index < 0 || index >= this.items.length) return undefined;
+        if (this.emitter.emit("beforeRemove", [this.items[index]])) return undefined;
 
         const [item] = this.items.splice(index, 1);
         this.emitter.emit("remove", [item]);
@@ -253,16 +306,23 @@ export class Collection<T> {
      * Fetch an item array from a URL and replace the collection contents.
      * Uses the collection's own scope — aborted if the collection is destroyed.
      * Returns the full collection after reset.
+     *
+     * Pass a number for a plain per-attempt timeout, or fetchJson options
+     * for retry, backoff, deadline and caching. With options.cache, a
+     * response the collection has already applied does not reset() again.
      */
-    async fetch(url: string, timeout?: number): Promise<T[]> {
+    async fetch(
+        url: string,
+        options?: number | Omit<FetchOptions<T[]>, "scope">
+    ): Promise<T[]> {
         this.checkDestroyed();
 
-        const items = await fetchJson<T[]>(url, {
+        const items = await fetchUnlessApplied<T[]>(url, {
+            ...(typeof options === "number" ? { timeout: options } : options),
             scope: this.scope,
-            timeout,
-        });
+        }, this.cacheVersions);
 
-        this.reset(items);
+        if (items) this.reset(items);
         return this.getAll();
     }
 
@@ -285,8 +345,11 @@ export class Collection<T> {
         return createRefresh(
             async () => {
                 if (this.isDestroyed()) return;
-                const items = await fetchJson<T[]>(url, { scope: refreshScope });
-                this.reset(items);
+                const items = await fetchUnlessApplied<T[]>(url, {
+                    scope: refreshScope,
+                    cache: options.cache,
+                }, this.cacheVersions);
+                if (items) this.reset(items);
             },
             {
                 interval:    options.interval,
@@ -303,29 +366,56 @@ export class Collection<T> {
 
     // ── Observe ──────────────────────────────────────────────────────────────
 
-    onAdd(fn: (items: T[]) => void, scope?: Scope): DisposeFn {
+    /**
+     * Listen for added items. The on* methods take `{ scope, debounce |
+     * throttle | batch }` in place of a scope to rate-limit: onAdd, onRemove
+     * and onUpdate then receive every item since the last call; onReset gets
+     * the latest contents.
+     *
+     * @example
+     * todos.onAdd(renderRows, { scope, batch: "animationFrame" });
+     */
+    onAdd(fn: (items: T[]) => void, options?: Scope | SubscribeOptions): DisposableFn {
+        this.checkDestroyed();
+        return this.emitter.on("add", fn, itemOptions<T>(options));
+    }
+
+    /**
+     * Listen before items are removed by remove() or removeAt(), with the
+     * chance to veto. Call preventDefault() on the EventControl to keep the
+     * items. reset() and clear() replace the contents and are not vetoable.
+     *
+     * @example
+     * todos.onBeforeRemove((items, ev) => {
+     *   if (items.some((t) => t.pinned)) ev.preventDefault();
+     * }, scope);
+     */
+    onBeforeRemove(
+        fn: (items: readonly T[], control: EventControl) => void,
+        scope?: Scope
+    ): DisposableFn {
         this.checkDestroyed();
-        return this.emitter.on("add", fn, scope);
+        return this.emitter.onCancelable("beforeRemove", fn, scope);
     }
 
-    onRemove(fn: (items: T[]) => void, scope?: Scope): DisposeFn {
+    onRemove(fn: (items: T[]) => void, options?: Scope | SubscribeOptions): DisposableFn {
         this.checkDestroyed();
-        return this.emitter.on("remove", fn, scope);
+        return this.emitter.on("remove", fn, itemOptions<T>(options));
     }
 
-    onUpdate(fn: (items: T[]) => void, scope?: Scope): DisposeFn {
+    onUpdate(fn: (items: T[]) => void, options?: Scope | SubscribeOptions): DisposableFn {
         this.checkDestroyed();
-        return this.emitter.on("update", fn, scope);
+        return this.emitter.on("update", fn, itemOptions<T>(options));
     }
 
-    onReset(fn: (items: T[]) => void, scope?: Scope): DisposeFn {
+    onReset(fn: (items: T[]) => void, options?: Scope | SubscribeOptions): DisposableFn {
         this.checkDestroyed();
-        return this.emitter.on("reset", fn, scope);
+        return this.emitter.on("reset", fn, options);
     }
 
-    onSort(fn: () => void, scope?: Scope): DisposeFn {
+    onSort(fn: () => void, options?: Scope | SubscribeOptions): DisposableFn {
         this.checkDestroyed();
-        return this.emitter.on("sort", fn, scope);
+        return this.emitter.on("sort", fn, options);
     }
 
     /**
@@ -333,17 +423,23 @@ export class Collection<T> {
      * Sort is intentionally excluded: sort changes ordering, not data.
      * Use onSort() separately if you need to react to ordering changes.
      *
-     * Returns a single DisposeFn that removes all four listeners at once.
+     * One listener for all four events, so a rate limit applies across
+     * them: a burst of add() and remove() calls yields one fn() call.
      */
-    onChange(fn: () => void, scope?: Scope): DisposeFn {
+    onChange(fn: () => void, options?: Scope | SubscribeOptions): DisposableFn {
         this.checkDestroyed();
 
-        const c1 = this.onAdd(   () => fn(), scope);
-        const c2 = this.onRemove(() => fn(), scope);
-        const c3 = this.onUpdate(() => fn(), scope);
-        const c4 = this.onReset( () => fn(), scope);
-
-        return () => { c1(); c2(); c3(); c4(); };
+        return this.emitter.onAny(
+            (...[event]) => {
+                if (CHANGE_EVENTS.has(event)) fn();
+            },
+            {
+                ...toListenerOptions<SubscribeOptions>(options),
+                // Keep a data-change event over a later sort / beforeRemove,
+                // so a rate-limited burst still reports the change.
+                merge: (pending, next) => (CHANGE_EVENTS.has(next[0] as string) ? next : pending),
+            }
+        );
     }
 
     // ── Lifecycle ────────────────────────────────────────────────────────────
@@ -360,6 +456,11 @@ export class Collection<T> {
         this.scope.dispose();
     }
 
+    /** Same as destroy(). Lets `using` own the instance. */
+    [disposeSymbol](): void {
+        this.destroy();
+    }
+
     isDestroyed(): boolean {
         return this.scope.signal.aborted;
     }
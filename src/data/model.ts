@@ -15,9 +15,22 @@
 
 import {TypedEmitter} from "../core/emitter";
 import {createRootScope} from "../core/scope";
-import {fetchJson} from "../core/fetch";
+import {fetchUnlessApplied} from "../core/applied";
 import {createRefresh,} from "../core/refresh";
-import {AutoRefreshOptions, DisposeFn, RefreshController, Scope} from "../types/index";
+import {
+    AutoRefreshOptions,
+    DisposableFn,
+    EventControl,
+    FetchOptions,
+    RefreshController,
+    ListenerOptions,
+    Scope,
+    StreamOptions,
+    SubscribeOptions,
+} from "../types/index";
+import {disposeSymbol} from "../core/disposable";
+import {registerRecordable} from "../core/recordable";
+import {toListenerOptions} from "../core/subscribe";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // BoneMarrow Model v1.2
@@ -31,14 +44,27 @@ import {AutoRefreshOptions, DisposeFn, RefreshController, Scope} from "../types/
 // ─────────────────────────────────────────────────────────────────────────────
 
 type ModelEvents<T> = {
-    change: [patch: Partial<T>];
+    beforeChange: [patch: Partial<T>];
+    change:       [patch: Partial<T>];
 };
 
+/** Rate-limited change listeners get every patch since their last call, merged. */
+function changeOptions<T>(
+    options: Scope | SubscribeOptions | undefined
+): ListenerOptions<[patch: Partial<T>]> {
+    return {
+        ...toListenerOptions<SubscribeOptions>(options),
+        merge: ([pending], [next]) => [{ ...pending, ...next }],
+    };
+}
+
 export class Model<T extends object> {
     private data: T;
     private initial: T;
     private emitter = new TypedEmitter<ModelEvents<T>>();
     private scope: Scope;
+    /** Cache version last applied, per URL — see fetchUnlessApplied(). */
+    private cacheVersions = new Map<string, string>();
 
     /**
      * Create a model with an initial state.
@@ -70,6 +96,16 @@ export class Model<T extends object> {
         // Model destroys itself when its scope is disposed.
         // destroy() is idempotent — safe to call multiple times.
         this.scope.onDispose(() => this._destroy());
+
+        // Let recorders capture and replay changes. Replaying "change"
+        // through set() keeps state in step; set() emits beforeChange itself.
+        registerRecordable(this, {
+            emitter: this.emitter,
+            apply: (event, args) => {
+                if (event === "change") this.set(args[0] as Partial<T>);
+                return event === "change" || event === "beforeChange";
+            },
+        });
     }
 
     // ── Read ─────────────────────────────────────────────────────────────────
@@ -105,7 +141,8 @@ export class Model<T extends object> {
     /**
      * Apply a partial patch to the model state.
      * Only changed keys are applied. Emits "change" only if something changed.
-     * Returns true if any key changed, false if state was already identical.
+     * Returns true if any key changed, false if state was already identical
+     * or a beforeChange listener vetoed the change.
      */
     set(patch: Partial<T>): boolean {
         this.checkDestroyed();
@@ -121,6 +158,7 @@ export class Model<T extends object> {
         }
 
         if (!hasChanges) return false;
+        if (this.emitter.emit("beforeChange", changes)) return false;
 
         Object.assign(this.data, changes);
         this.emitter.emit("change", changes);
@@ -130,6 +168,7 @@ export class Model<T extends object> {
     /**
      * Reset model state to the initial values provided at construction.
      * Emits "change" only if state differs from initial.
+     * A beforeChange listener can veto the reset.
      */
     reset(): void {
         this.checkDestroyed();
@@ -138,7 +177,7 @@ export class Model<T extends object> {
             (key) => resetData[key] !== this.data[key]
         );
 
-        if (hasChanges) {
+        if (hasChanges && !this.emitter.emit("beforeChange", resetData)) {
             this.data = resetData;
             this.emitter.emit("change", resetData);
         }
@@ -150,26 +189,54 @@ export class Model<T extends object> {
      * Listen for any state change.
      * fn receives the patch — only the keys that actually changed.
      *
+     * Pass `{ scope, debounce | throttle | batch }` instead of a scope to
+     * rate-limit: fn then receives all patches since its last call, merged.
+     *
      * @example
      * model.onChange((patch) => console.log(patch), scope);
+     * model.onChange(render, { scope, batch: "animationFrame" });
      */
-    onChange(fn: (patch: Partial<T>) => void, scope?: Scope): DisposeFn {
+    onChange(
+        fn: (patch: Partial<T>) => void,
+        options?: Scope | SubscribeOptions
+    ): DisposableFn {
         this.checkDestroyed();
-        return this.emitter.on("change", fn, scope);
+        return this.emitter.on("change", fn, changeOptions<T>(options));
+    }
+
+    /**
+     * Listen before a change is applied, with the chance to veto it.
+     * fn receives the pending patch and an EventControl — call
+     * preventDefault() to cancel: state is left untouched, no "change" is
+     * emitted, and set() returns false.
+     *
+     * @example
+     * model.onBeforeChange((patch, ev) => {
+     *   if (patch.balance !== undefined && patch.balance < 0) ev.preventDefault();
+     * }, scope);
+     */
+    onBeforeChange(
+        fn: (patch: Readonly<Partial<T>>, control: EventControl) => void,
+        scope?: Scope
+    ): DisposableFn {
+        this.checkDestroyed();
+        return this.emitter.onCancelable("beforeChange", fn, scope);
     }
 
     /**
      * Watch a single key for changes.
-     * fn is called only when that specific key changes.
+     * fn is called only when that specific key changes. Rate limits work as
+     * in onChange() — fn gets the latest value.
      *
      * @example
      * model.watch("username", (value) => console.log(value), scope);
+     * model.watch("query", search, { scope, debounce: 300 });
      */
     watch<K extends keyof T>(
         key: K,
         fn: (value: T[K]) => void,
-        scope?: Scope
-    ): DisposeFn {
+        options?: Scope | SubscribeOptions
+    ): DisposableFn {
         this.checkDestroyed();
         return this.emitter.on(
             "change",
@@ -178,26 +245,57 @@ export class Model<T extends object> {
                     fn(patch[key] as T[K]);
                 }
             },
-            scope
+            changeOptions<T>(options)
         );
     }
 
+    /**
+     * Iterate over changes with `for await`. Each value is a one-element
+     * tuple holding the patch, as with onChange().
+     *
+     * The stream ends when the scope is disposed or the model is destroyed.
+     * Without a scope it lives until the model is destroyed or the loop
+     * breaks.
+     *
+     * @example
+     * for await (const [patch] of model.changes(scope)) {
+     *   render(patch);
+     * }
+     */
+    changes(
+        scope?: Scope,
+        options?: Omit<StreamOptions, "scope">
+    ): AsyncIterableIterator<[patch: Partial<T>]> {
+        this.checkDestroyed();
+        return this.emitter.stream("change", { ...options, scope });
+    }
+
     // ── Network ──────────────────────────────────────────────────────────────
 
     /**
      * Fetch a partial state patch from a URL and apply it to the model.
      * Uses the model's own scope — aborted if the model is destroyed.
      * Returns the full model state after patching.
+     *
+     * Pass a number for a plain per-attempt timeout, or fetchJson options
+     * for retry, backoff, deadline and caching. With options.cache, a
+     * response the model has already applied is not applied again.
+     *
+     * @example
+     * await model.fetch("/api/user", { retryOnFailure: 3, backoff: "jitter", deadline: 10000 });
      */
-    async fetch(url: string, timeout?: number): Promise<Readonly<T>> {
+    async fetch(
+        url: string,
+        options?: number | Omit<FetchOptions<Partial<T>>, "scope">
+    ): Promise<Readonly<T>> {
         this.checkDestroyed();
 
-        const patch = await fetchJson<Partial<T>>(url, {
-            scope:   this.scope,
-            timeout,
-        });
+        const patch = await fetchUnlessApplied<Partial<T>>(url, {
+            ...(typeof options === "number" ? { timeout: options } : options),
+            scope: this.scope,
+        }, this.cacheVersions);
 
-        this.set(patch);
+        if (patch) this.set(patch);
         return this.getAll();
     }
 
@@ -230,11 +328,12 @@ export class Model<T extends object> {
                 // Bail immediately if the model was destroyed between ticks.
                 if (this.isDestroyed()) return;
 
-                const patch = await fetchJson<Partial<T>>(url, {
+                const patch = await fetchUnlessApplied<Partial<T>>(url, {
                     scope: refreshScope,
-                });
+                    cache: options.cache,
+                }, this.cacheVersions);
 
-                this.set(patch);
+                if (patch) this.set(patch);
             },
             {
                 interval:    options.interval,
@@ -269,6 +368,11 @@ export class Model<T extends object> {
         this.scope.dispose();
     }
 
+    /** Same as destroy(). Lets `using` own the instance. */
+    [disposeSymbol](): void {
+        this.destroy();
+    }
+
     isDestroyed(): boolean {
         return this.scope.signal.aborted;
     }
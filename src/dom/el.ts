@@ -14,6 +14,7 @@
  */
 
 import {Elements} from "./elements";
+import {log} from "../core/config";
 
 /**
  * Create an Elements wrapper from various input types.
@@ -80,7 +81,7 @@ export function el(
                 )
             );
         } catch (error) {
-            console.error(`[el] Invalid selector: "${selector}"`, error);
+            log("el", "error", `Invalid selector: "${selector}"`, { error, context: { selector } });
             return new Elements([]);
         }
     }
@@ -110,8 +111,10 @@ export function el(
         const elements = input.filter((item): item is Element => item instanceof Element);
 
         if (elements.length !== input.length) {
-            console.warn(
-                `[el] ${input.length - elements.length} item(s) in array were not Elements and were filtered out`
+            log(
+                "el",
+                "warn",
+                `${input.length - elements.length} item(s) in array were not Elements and were filtered out`
             );
         }
 
@@ -124,7 +127,7 @@ export function el(
         ? (input as object).constructor?.name ?? "unknown object"
         : typeof input;
 
-    console.warn(`[el] Unrecognized input type: ${typeName}`);
+    log("el", "warn", `Unrecognized input type: ${typeName}`, { context: { typeName } });
     return new Elements([]);
 }
 
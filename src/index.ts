@@ -14,9 +14,14 @@
  */
 
 export * from "./types/index"
+export {configure} from "./core/config";
 export * from "./core/scope";
+export {CompositeError} from "./core/async";
 export * from "./core/emitter";
+export * from "./core/bridge";
+export * from "./core/recorder";
 export * from "./core/fetch";
+export {createHttpCache, memoryCacheStorage} from "./core/cache";
 export * from "./data/model";
 export * from "./data/collection";
 export * from "./view/view";
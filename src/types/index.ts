@@ -13,12 +13,52 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  */
 
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** One structured diagnostic from the library. */
+export interface LogRecord {
+    /** Emitting module, e.g. "Scope", "Refresh", "Fetch", "el", "View". */
+    module: string;
+    level: LogLevel;
+
+    /** Human-readable message, without the "[Module]" prefix. */
+    message: string;
+
+    /** The error being reported, if any. */
+    error?: unknown;
+
+    /** Extra structured data — safe to serialize. */
+    context?: Record<string, unknown>;
+}
+
+/** Receives every library diagnostic. Set with configure({ logger }). */
+export interface Logger {
+    log(record: LogRecord): void;
+}
+
+export interface BoneMarrowConfig {
+    /** Destination for all diagnostics. Default: console. */
+    logger?: Logger;
+
+    /**
+     * Called for every error-level record that carries an error, after the
+     * logger. Use it to forward failures to telemetry.
+     */
+    onError?: (error: unknown, record: LogRecord) => void;
+
+    /**
+     * Emit debug-level records, and turn on debug mode by default for scopes
+     * and emitters created afterwards. Default: false.
+     */
+    debug?: boolean;
+}
+
 /**
  * Injectable logger interface — keeps BoneMarrow logging-agnostic.
  * Pass a custom logger via the constructor to integrate with your
  * existing logging infrastructure (e.g. Sentry, Datadog, custom).
  *
- * Defaults to console in debug mode.
+ * Defaults to the library-wide logger set with configure().
  */
 export interface EmitterLogger {
     log(message: string): void;
@@ -26,6 +66,203 @@ export interface EmitterLogger {
     error(message: string, error: unknown): void;
 }
 
+/**
+ * Passed to every emitter handler as its last argument.
+ *
+ * stopPropagation() skips the handlers that have not run yet.
+ * preventDefault() marks the emission cancelled — emit() returns true and
+ * the emitting code decides what "cancelled" means (e.g. a veto).
+ */
+export interface EventControl {
+    readonly event: string;
+    /**
+     * Set for emitAsync(). Aborts when the emission is cancelled — scope or
+     * signal abort, timeout, or a fail-fast failure. Forward it to fetches
+     * and other cancellable work.
+     */
+    readonly signal?: AbortSignal;
+    readonly defaultPrevented: boolean;
+    readonly propagationStopped: boolean;
+    preventDefault(): void;
+    stopPropagation(): void;
+}
+
+/**
+ * What TypedEmitter keeps for late subscribers of an event: the last
+ * emission only, or the last N.
+ */
+export type ReplayPolicy = "last" | number;
+
+/**
+ * Options for TypedEmitter.stream() and Model.changes().
+ */
+export interface StreamOptions {
+    /** End the stream when this scope is disposed. */
+    scope?: Scope;
+    /** Emissions held while the consumer is busy. Default: 100. */
+    bufferSize?: number;
+    /**
+     * What to do when an emission arrives and the buffer is full:
+     * - "drop-oldest" — discard the oldest buffered emission (default)
+     * - "drop-newest" — discard the arriving emission
+     * - "error"       — end the stream; the next read rejects
+     */
+    overflow?: "drop-oldest" | "drop-newest" | "error";
+}
+
+/**
+ * Anything bridgeEmitter() can talk through: a BroadcastChannel, a
+ * MessagePort, a Worker, or a worker's own global scope (`self`).
+ */
+export interface BridgeTarget {
+    postMessage(message: unknown): void;
+    addEventListener(type: "message" | "messageerror", listener: (event: MessageEvent) => void): void;
+    removeEventListener(type: "message" | "messageerror", listener: (event: MessageEvent) => void): void;
+}
+
+/**
+ * Options for bridgeEmitter().
+ */
+export interface BridgeOptions<TEvents> {
+    /** Tear the bridge down when this scope is disposed. */
+    scope?: Scope;
+    /**
+     * Namespace for messages on the transport, so several bridges (or other
+     * traffic) can share one channel or port. Both sides must agree.
+     * Default: "bonemarrow".
+     */
+    channel?: string;
+    /** Only forward and accept these events. Default: all. */
+    events?: Array<keyof TEvents>;
+    /**
+     * Turn an emission's arguments into structured-clone-safe data before
+     * posting. Default: post the arguments as they are — functions, DOM
+     * nodes and class prototypes do not survive the trip.
+     */
+    serialize?: (event: keyof TEvents, args: unknown[]) => unknown[];
+    /** Inverse of serialize, run on the receiving side. */
+    deserialize?: (event: keyof TEvents, args: unknown[]) => unknown[];
+}
+
+/** How long one handler ran during an emission. See EmitInfo. */
+export interface HandlerTiming {
+    /** The handler function's name, or "anonymous". */
+    handler: string;
+    /** Milliseconds — for async handlers, until their promise settled. */
+    duration: number;
+    /** True if the handler threw, rejected or timed out. */
+    failed: boolean;
+}
+
+/**
+ * Passed to emitter middleware alongside each emission.
+ */
+export interface EmitInfo {
+    /** "sync" for emit(), "async" for emitAsync() / emitAsyncWith(). */
+    mode: "sync" | "async";
+    /**
+     * One entry per handler that ran, in the order they settled. Filled in
+     * by the time next() returns (sync) or its promise settles (async).
+     */
+    timings: HandlerTiming[];
+}
+
+/**
+ * How TypedEmitter.emitAsync() runs its handlers.
+ */
+export interface EmitAsyncOptions {
+    /**
+     * "parallel" starts every handler at once (default).
+     * "serial" awaits each handler before starting the next, in priority order.
+     */
+    mode?: "parallel" | "serial";
+    /** Fail a single handler that takes longer than this (ms), with an EmitTimeoutError. */
+    handlerTimeout?: number;
+    /** Abort the whole emission after this many ms, with an EmitTimeoutError. */
+    timeout?: number;
+    /** Abort the emission when this scope is disposed. */
+    scope?: Scope;
+    /** Abort the emission when this signal aborts. */
+    signal?: AbortSignal;
+    /**
+     * Reject on the first handler failure and abort the rest, instead of
+     * waiting for every handler and reporting all failures (default: false).
+     */
+    failFast?: boolean;
+}
+
+/**
+ * Rate limits for a subscription. Use at most one.
+ *
+ * Deferred calls receive the merged arguments of every emission since the
+ * last call.
+ */
+export interface RateLimitOptions {
+    /** Call once emissions have paused for this many ms. */
+    debounce?: number;
+    /** Call at most once per this many ms — first emission at once, the rest at the end of the window. */
+    throttle?: number;
+    /** Collect emissions and call once per microtask or animation frame. */
+    batch?: "microtask" | "animationFrame";
+}
+
+/**
+ * Options for Model / Collection observe methods. Passing a Scope directly
+ * in place of the options is the same as `{ scope }`.
+ */
+export interface SubscribeOptions extends RateLimitOptions {
+    /**
+     * Remove the listener when this scope is disposed. Pending debounce,
+     * throttle and batch timers are owned by it too.
+     */
+    scope?: Scope;
+}
+
+/**
+ * Options for TypedEmitter.on() and friends. Passing a Scope directly in
+ * place of the options is the same as `{ scope }`.
+ */
+export interface ListenerOptions<A extends unknown[] = unknown[]> extends SubscribeOptions {
+    /**
+     * Higher runs first. Default: 0. Equal priorities run in registration
+     * order — exact listeners before pattern listeners before onAny().
+     */
+    priority?: number;
+    /**
+     * How a rate-limited listener combines emissions it has not been called
+     * with yet. Default: keep the latest.
+     */
+    merge?: (pending: A, next: A) => A;
+}
+
+/**
+ * Options for TypedEmitter.onCancelable(). No rate limits — a deferred call
+ * could no longer cancel the emission.
+ */
+export interface CancelableListenerOptions {
+    scope?: Scope;
+    /** Higher runs first. Default: 0. See ListenerOptions.priority. */
+    priority?: number;
+}
+
+/**
+ * Decide whether to retry after a failed attempt. error is an HttpError,
+ * a TimeoutError, or whatever fetch() rejected with; attempt is the number
+ * of the attempt that failed (1-based). Aborts never reach it, and nor do
+ * errors reading or parsing the body — those always fail at once.
+ */
+export type RetryPolicy = (error: unknown, attempt: number) => boolean;
+
+/**
+ * Wait between retries, from the base retryDelay:
+ * - "constant"    — retryDelay every time
+ * - "linear"      — retryDelay × retry number
+ * - "exponential" — retryDelay × 2^(retry − 1)
+ * - "jitter"      — decorrelated jitter: random between retryDelay and
+ *                   three times the previous wait
+ */
+export type BackoffStrategy = "constant" | "linear" | "exponential" | "jitter";
+
 export interface FetchOptions<T> {
     /**
      * BoneMarrow Scope. When provided:
@@ -34,24 +271,60 @@ export interface FetchOptions<T> {
      */
     scope?: Scope;
 
-    /** Request timeout in milliseconds. Applies per attempt, not total. */
+    /**
+     * Request timeout in milliseconds. Applies per attempt, not total.
+     * An attempt that runs over fails with a TimeoutError.
+     */
     timeout?: number;
 
     /**
      * Number of retry attempts after the first failure. Default: 0.
      * retryOnFailure: 1 → up to 2 total attempts (1 initial + 1 retry).
      * retryOnFailure: N → up to N+1 total attempts.
-     * Aborts are never retried — they are always terminal.
+     * Only failures retryOn accepts are retried. Aborts never are — they
+     * are always terminal.
      */
     retryOnFailure?: number;
 
     /**
      * Milliseconds to wait between retry attempts. Default: 0.
+     * The base delay for backoff strategies other than "constant".
      * Respects scope disposal — if the scope is disposed during a delay,
      * the wait is cut short and the attempt is abandoned immediately.
      */
     retryDelay?: number;
 
+    /**
+     * How the wait grows between retries. Default: "constant".
+     * See BackoffStrategy.
+     */
+    backoff?: BackoffStrategy;
+
+    /** Upper bound for any single wait between retries (ms), Retry-After included. */
+    maxDelay?: number;
+
+    /**
+     * Total time budget in milliseconds across all attempts and waits.
+     * Each attempt's timeout is cut to what is left; when the deadline
+     * passes the request fails with a TimeoutError (deadline: true) and is
+     * not retried. A retry whose wait would run past it is not started.
+     */
+    deadline?: number;
+
+    /**
+     * Called before each retry wait with the retry number (1-based), the
+     * failure being retried, and the delay about to be waited (ms).
+     */
+    onRetry?: (attempt: number, error: unknown, delay: number) => void;
+
+    /**
+     * Decide whether a failure is worth retrying. Only consulted while
+     * retries remain. Default: defaultRetryPolicy — network errors,
+     * timeouts, 408, 429 and 5xx. A Retry-After header on the response
+     * replaces retryDelay for that wait.
+     */
+    retryOn?: RetryPolicy;
+
     /**
      * Deduplicate concurrent requests with the same method + URL (+ body for
      * non-GET requests) per Scope instance.
@@ -66,8 +339,268 @@ export interface FetchOptions<T> {
      */
     init?: Omit<RequestInit, "signal">;
 
-    /** Transform the parsed JSON before returning. Runs after res.json(). */
+    /**
+     * How to read the response body. Default: "json". See ResponseBodyType.
+     *
+     * @example
+     * const csv = await fetchJson<string>("/export.csv", { responseType: "text" });
+     */
+    responseType?: ResponseBodyType;
+
+    /**
+     * Transform the body before returning. Runs after it is read — on the
+     * parsed JSON by default, or on whatever responseType produced.
+     */
     parse?: (json: unknown) => T;
+
+    /**
+     * Cache GET responses in this cache (see createHttpCache). Entries hold
+     * the body before parse, so parse runs on every call, cached or not.
+     * Only "json" and "text" responses are cached; other response types
+     * bypass the cache.
+     */
+    cache?: HttpCache;
+
+    /**
+     * Key to cache the response under. Default: the URL, split further by
+     * the request's Accept, Accept-Language and Authorization headers.
+     */
+    cacheKey?: string;
+
+    /** Called with how the cache answered. Only called when cache is set. */
+    onCache?: (info: CacheInfo) => void;
+
+    /**
+     * Report upload and download progress to a callback, or to an emitter
+     * as "upload" / "download" events (see ProgressEvents).
+     *
+     * Downloads are counted as the body streams in. fetch() cannot report
+     * upload progress, so a request with a body and progress set is sent
+     * with XMLHttpRequest instead — timeout, retry and scope cancellation
+     * work the same. Where XMLHttpRequest is unavailable (service workers,
+     * Node) only download progress is reported.
+     */
+    progress?: ProgressTarget;
+}
+
+export type ProgressDirection = "upload" | "download";
+
+export interface Progress {
+    direction: ProgressDirection;
+    /** Bytes transferred so far. */
+    loaded: number;
+    /** Total bytes, when known (Content-Length, or the request body size). */
+    total?: number;
+    /** 0–100, when total is known. */
+    percent?: number;
+    /** Average bytes per second since the transfer started. */
+    rate: number;
+}
+
+/** Events an emitter passed as FetchOptions.progress receives. */
+export type ProgressEvents = {
+    upload:   [progress: Progress];
+    download: [progress: Progress];
+};
+
+/**
+ * Where progress goes: a callback, or anything with a matching emit() —
+ * a TypedEmitter<ProgressEvents>, for one.
+ */
+export type ProgressTarget =
+    | ((progress: Progress) => void)
+    | { emit(event: ProgressDirection, progress: Progress): unknown };
+
+/**
+ * How fetchJson and HttpClient read a response body:
+ * - "json"        — parsed JSON (default)
+ * - "text"        — string
+ * - "blob"        — Blob
+ * - "arrayBuffer" — ArrayBuffer
+ * - "formData"    — FormData
+ * - "response"    — the Response itself, body unread. The body is then
+ *                   yours: the timeout and scope no longer apply to it.
+ */
+export type ResponseBodyType = "json" | "text" | "blob" | "arrayBuffer" | "formData" | "response";
+
+/**
+ * Options for fetchStream. Timeout, retry and deadline work as in
+ * fetchJson, with timeout also limiting the wait for each chunk once the
+ * body is streaming. Retries only cover getting the response — a failure
+ * mid-stream ends the stream with that error.
+ */
+export interface FetchStreamOptions<T>
+    extends Omit<FetchOptions<T>, "dedupe" | "cache" | "cacheKey" | "onCache" | "responseType" | "parse"> {
+    /** Transform each record after JSON.parse. */
+    parse?: (record: unknown) => T;
+}
+
+/**
+ * A cached response, as stored by an HttpCacheStorage. Must survive
+ * JSON.stringify if the storage persists it.
+ */
+export interface HttpCacheEntry {
+    /** The response JSON, before parse. */
+    data: unknown;
+    /** Changes whenever data is replaced — not when it is revalidated. */
+    version: string;
+    /** When the entry was last fetched or revalidated (ms since epoch). */
+    storedAt: number;
+    etag?: string;
+    lastModified?: string;
+}
+
+/**
+ * Where an HttpCache keeps its entries. Methods may be sync or async, so
+ * localStorage and IndexedDB both fit.
+ */
+export interface HttpCacheStorage {
+    get(key: string): HttpCacheEntry | undefined | Promise<HttpCacheEntry | undefined>;
+    set(key: string, entry: HttpCacheEntry): void | Promise<void>;
+    delete(key: string): void | Promise<void>;
+    keys(): Iterable<string> | Promise<Iterable<string>>;
+}
+
+export interface HttpCacheOptions {
+    /** Default: memoryCacheStorage() — entries live as long as the cache. */
+    storage?: HttpCacheStorage;
+
+    /**
+     * How long an entry is served without asking the server (ms).
+     * Default: 0 — every request revalidates, with If-None-Match /
+     * If-Modified-Since so an unchanged resource costs a 304.
+     */
+    ttl?: number;
+
+    /**
+     * How long past ttl an entry may still be served while it is
+     * revalidated in the background (ms). Default: 0.
+     */
+    staleWhileRevalidate?: number;
+}
+
+export interface HttpCache {
+    /**
+     * Drop entries. A URL drops every entry cached for it, whatever the
+     * request headers. Pass a predicate to drop every key it matches — keys
+     * start with the URL (or are the options.cacheKey given).
+     *
+     * @example
+     * await cache.invalidate("/api/users");
+     * await cache.invalidate((url) => url.startsWith("/api/users"));
+     */
+    invalidate(keyOrPredicate: string | ((key: string) => boolean)): Promise<void>;
+
+    /** Drop every entry. */
+    clear(): Promise<void>;
+}
+
+/**
+ * How the cache answered a request:
+ * - "hit"         — fresh entry, no request made
+ * - "stale"       — stale entry served, revalidating in the background
+ * - "revalidated" — the server answered 304; entry served and refreshed
+ * - "miss"        — full response from the server, now cached
+ */
+export type CacheStatus = "hit" | "stale" | "revalidated" | "miss";
+
+export interface CacheInfo {
+    status: CacheStatus;
+    /** The served entry's version. Same version → same data. */
+    version: string;
+}
+
+/** A query-string value. Arrays repeat the key; null / undefined are skipped. */
+export type QueryValue = string | number | boolean | Date | null | undefined;
+
+/** Query parameters for HttpClient requests. */
+export type QueryParams = Record<string, QueryValue | QueryValue[]>;
+
+/**
+ * A request as HttpClient request interceptors see it — before the body is
+ * serialized, so interceptors can still change it.
+ */
+export interface HttpRequest {
+    method: string;
+    /** Full URL: baseURL joined and query string applied. */
+    url: string;
+    headers: Record<string, string>;
+    /** Plain objects and arrays are sent as JSON; anything else as is. */
+    body?: unknown;
+}
+
+/** A parsed response as HttpClient response interceptors see it. */
+export interface HttpResponse<T = unknown> {
+    data: T;
+    status: number;
+    statusText: string;
+    headers: Headers;
+    request: HttpRequest;
+}
+
+export interface HttpClientConfig {
+    /** Prefix for relative request URLs. */
+    baseURL?: string;
+    /** Sent with every request. Per-request headers override them. */
+    headers?: Record<string, string>;
+    /** Default per-attempt timeout (ms). */
+    timeout?: number;
+    /** Default scope — requests abort when it is disposed. */
+    scope?: Scope;
+    /** Default retry count. See FetchOptions.retryOnFailure. */
+    retryOnFailure?: number;
+    /** Default delay between retries (ms). */
+    retryDelay?: number;
+    /** Default retry policy. See FetchOptions.retryOn. */
+    retryOn?: RetryPolicy;
+    /** Default backoff strategy. See FetchOptions.backoff. */
+    backoff?: BackoffStrategy;
+    /** Default cap on a single retry wait (ms). */
+    maxDelay?: number;
+}
+
+/**
+ * Per-request options for HttpClient. Scope, timeout and retry fields
+ * override the client's defaults.
+ */
+export interface HttpRequestOptions<T> extends Omit<FetchOptions<T>, "init" | "cache" | "cacheKey" | "onCache"> {
+    query?: QueryParams;
+    headers?: Record<string, string>;
+    /** Other fetch() options — credentials, mode, cache, … */
+    init?: Omit<RequestInit, "signal" | "method" | "headers" | "body">;
+}
+
+export interface HttpClient {
+    get<T = unknown>(url: string, options?: HttpRequestOptions<T>): Promise<T>;
+    delete<T = unknown>(url: string, options?: HttpRequestOptions<T>): Promise<T>;
+    post<T = unknown>(url: string, body?: unknown, options?: HttpRequestOptions<T>): Promise<T>;
+    put<T = unknown>(url: string, body?: unknown, options?: HttpRequestOptions<T>): Promise<T>;
+    patch<T = unknown>(url: string, body?: unknown, options?: HttpRequestOptions<T>): Promise<T>;
+
+    /** Any method. The shortcuts above all go through this. */
+    request<T = unknown>(
+        method: string,
+        url: string,
+        options?: HttpRequestOptions<T> & { body?: unknown }
+    ): Promise<T>;
+
+    /**
+     * Run fn on every request before it is sent, in registration order.
+     * Return the request to send (modified or not).
+     */
+    onRequest(
+        fn: (request: HttpRequest) => HttpRequest | Promise<HttpRequest>,
+        scope?: Scope
+    ): DisposableFn;
+
+    /**
+     * Run fn on every successful response after parsing, in registration
+     * order. Return the response to resolve with (modified or not).
+     */
+    onResponse(
+        fn: (response: HttpResponse) => HttpResponse | Promise<HttpResponse>,
+        scope?: Scope
+    ): DisposableFn;
 }
 
 export interface RefreshOptions {
@@ -86,7 +619,10 @@ export interface RefreshOptions {
     /** Start in a paused state. Default: false. */
     startPaused?: boolean;
 
-    /** Called when fn throws or rejects. If omitted, errors are logged to console. */
+    /**
+     * Called when fn throws or rejects. If omitted, errors are reported to the
+     * scope's error boundary, or to the configured logger if there is none.
+     */
     onError?: (error: unknown) => void;
 
     /**
@@ -137,10 +673,183 @@ export interface RefreshController {
 
 export type DisposeFn = () => void;
 
-export interface Scope {
+// The dispose symbols are declared here rather than taken from the
+// ESNext.Disposable lib, so the published types compile for consumers whose
+// tsconfig does not include it. The declarations match the lib's and merge
+// with it where it is present.
+declare global {
+    interface SymbolConstructor {
+        readonly dispose: unique symbol;
+        readonly asyncDispose: unique symbol;
+    }
+}
+
+/** Usable with `using`. The library's own shape of the global Disposable. */
+export interface DisposableLike {
+    [Symbol.dispose](): void;
+}
+
+/** Usable with `await using`. The library's own shape of the global AsyncDisposable. */
+export interface AsyncDisposableLike {
+    [Symbol.asyncDispose](): PromiseLike<void>;
+}
+
+/**
+ * A DisposeFn that also implements Symbol.dispose, so it works with `using`.
+ * Returned by TypedEmitter.on() and the Model / Collection observe methods.
+ *
+ * @example
+ * using off = emitter.on("change", render);
+ */
+export type DisposableFn = DisposeFn & DisposableLike;
+
+/** Anything scope.use() can adopt. */
+export type ScopeResource = DisposableLike | AsyncDisposableLike | DisposeFn;
+
+/** Cleanup that may return a promise. Awaited only by scope.disposeAsync(). */
+export type AsyncDisposeFn = () => void | PromiseLike<void>;
+
+/** Why a scope was disposed. See ScopeAbortError. */
+export type ScopeDisposeKind = "explicit" | "parent" | "signal" | "timeout" | "unload";
+
+/**
+ * Async work run under a scope. Receives the signal and child scope that
+ * belong to this task alone — both end when the task settles or is cancelled.
+ */
+export type ScopeTask<T> = (signal: AbortSignal, scope: Scope) => T | PromiseLike<T>;
+
+export interface DisposeAsyncOptions {
+    /** Same as the reason argument to dispose(). */
+    reason?: unknown;
+
+    /**
+     * Milliseconds to wait for the whole subtree to finish. When it passes,
+     * remaining cleanups are started without being awaited and disposeAsync()
+     * rejects with a ScopeDisposeError whose timedOut flag is set.
+     * Default: no deadline.
+     */
+    timeout?: number;
+}
+
+export interface ScopeOptions {
+    /**
+     * Enable debug/leak logging. Dev only — disable in production.
+     * Default: the library-wide debug setting from configure().
+     */
+    debug?: boolean;
+
+    /**
+     * Optional name used by getPath() and snapshot() to identify this scope
+     * when inspecting the live scope tree. Has no effect on behavior.
+     */
+    name?: string;
+}
+
+/**
+ * Serializable, point-in-time view of a scope and its descendants.
+ * Produced by scope.snapshot() and snapshotScopeTree(). Safe to pass to
+ * JSON.stringify() or console.table() — holds no live references.
+ */
+export interface ScopeSnapshot {
+    name: string | undefined;
+    path: string;
+    disposed: boolean;
+    suspended: boolean;
+    cleanups: number;
+    children: ScopeSnapshot[];
+}
+
+export interface LeakDetectionOptions {
+    /**
+     * Report root scopes still alive (and not disposed) after this many
+     * milliseconds. Each scope is reported once. Default: no age check —
+     * only garbage-collected scopes are reported.
+     */
+    maxAge?: number;
+
+    /** How often to check ages, in milliseconds. Default: min(maxAge, 10s). */
+    checkInterval?: number;
+
+    /** Called for each suspected leak. Default: a warn record to the configured logger. */
+    onLeak?: (report: ScopeLeakReport) => void;
+
+    /**
+     * Capture a creation stack trace for each root scope. Default: true.
+     * For scopes a Model or Collection created, the first frame is the
+     * library constructor and the creating code is the frame below it.
+     */
+    captureStack?: boolean;
+}
+
+export interface ScopeLeakReport {
+    /**
+     * "collected" — garbage-collected without dispose() ever being called.
+     * "age"       — still alive and undisposed after maxAge.
+     */
+    reason: "collected" | "age";
+    name: string | undefined;
+
+    /** Date.now() at creation. */
+    createdAt: number;
+
+    /** Milliseconds between creation and this report. */
+    age: number;
+
+    /** Creation stack trace, if captured. */
+    stack: string | undefined;
+}
+
+export interface LiveRootScope {
+    scope: Scope;
+    name: string | undefined;
+    createdAt: number;
+    age: number;
+    stack: string | undefined;
+}
+
+/**
+ * Typed key for values passed down the scope tree with provide()/inject().
+ * Create with createContextKey(). Compared by identity, never by name.
+ */
+export interface ContextKey<T> {
+    readonly id: symbol;
+
+    /** Used in error messages only. */
+    readonly name: string;
+
+    readonly hasDefault: boolean;
+    readonly defaultValue: T | undefined;
+}
+
+/**
+ * Where an error reported to a scope boundary came from.
+ * - "scope"   — a cleanup threw during disposal
+ * - "refresh" — a refresh loop tick failed and no onError option was given
+ * - "emitter" — an event handler registered with this scope threw
+ * - "view"    — a View's init() threw
+ * - "user"    — reported directly via scope.reportError()
+ */
+export type ScopeErrorSource = "scope" | "refresh" | "emitter" | "view" | "user";
+
+export interface ScopeErrorInfo {
+    source: ScopeErrorSource;
+
+    /** The scope the error was reported on — not necessarily the boundary's. */
+    scope: Scope;
+}
+
+export type ScopeErrorHandler = (error: unknown, info: ScopeErrorInfo) => void;
+
+export interface Scope extends DisposableLike, AsyncDisposableLike {
+    /** Name given at creation, if any. Used only for debugging. */
+    readonly name: string | undefined;
+
     /**
      * AbortSignal that is aborted when this scope is disposed.
      * Wire this to fetch(), refresh loops, or any cancellable async work.
+     *
+     * Once aborted, signal.reason is a ScopeAbortError whose kind says why:
+     * explicit, parent, signal, timeout or unload.
      */
     readonly signal: AbortSignal;
 
@@ -151,8 +860,24 @@ export interface Scope {
      * This is intentional — registration on a dead scope is never silently dropped.
      *
      * Cleanups run in LIFO order (last registered, first called).
+     *
+     * Returns a function that unregisters fn without calling it — use it when
+     * the resource is released early and the scope outlives it.
      */
-    onDispose(fn: DisposeFn): void;
+    onDispose(fn: DisposeFn): DisposeFn;
+
+    /**
+     * Register a cleanup that may be async (e.g. flushing a draft, closing an
+     * IndexedDB transaction). Ordered with onDispose() cleanups in the same
+     * LIFO sequence.
+     *
+     * disposeAsync() awaits the returned promise. Plain dispose() starts it
+     * without waiting and logs a rejection. On an already-disposed scope, fn()
+     * is started immediately.
+     *
+     * Returns a function that unregisters fn without calling it.
+     */
+    onDisposeAsync(fn: AsyncDisposeFn): DisposeFn;
 
     /**
      * Create a child scope. The child is disposed automatically when the
@@ -161,19 +886,248 @@ export interface Scope {
      *
      * If called on an already-disposed scope, returns a pre-disposed scope
      * and logs a warning.
+     *
+     * @param name - Optional debug name, shown in getPath() and snapshot().
      */
-    createChild(): Scope;
+    createChild(name?: string): Scope;
 
     /**
      * Dispose this scope and all of its children.
      * Idempotent — safe to call multiple times.
      *
+     * @param reason - Optional cause, recorded as signal.reason.cause. The
+     *                 signal itself always aborts with a ScopeAbortError.
+     *
      * Disposal order:
      * 1. Children disposed (recursively, depth-first)
      * 2. AbortSignal aborted
      * 3. Cleanups run (LIFO)
      */
-    dispose(): void;
+    dispose(reason?: unknown): void;
+
+    /**
+     * Tie a resource's lifetime to this scope and return it unchanged.
+     *
+     * Accepts anything with Symbol.asyncDispose (preferred — awaited by
+     * disposeAsync()), Symbol.dispose, or a plain cleanup function. On a
+     * disposed scope the resource is disposed immediately.
+     *
+     * Scope itself implements both symbols, so `using scope = createRootScope()`
+     * and `await using` dispose it at the end of the block.
+     *
+     * @throws TypeError if resource is none of the above.
+     *
+     * @example
+     * const model = scope.use(new Model({ count: 0 }));
+     */
+    use<T extends ScopeResource>(resource: T): T;
+
+    /**
+     * Create a child scope that disposes itself after ms milliseconds with a
+     * "timeout" reason. Disposing this scope first cancels the deadline.
+     *
+     * @example
+     * const scope = viewScope.withTimeout(5000);
+     * await fetchJson("/api/slow", { scope });
+     */
+    withTimeout(ms: number): Scope;
+
+    /**
+     * Dispose this scope and wait for every async cleanup in the subtree.
+     *
+     * Same order as dispose(): children (one subtree at a time), then abort,
+     * then cleanups in LIFO order — each awaited before the next runs.
+     * Failures do not stop disposal. They are collected and thrown together
+     * as a single ScopeDisposeError once the subtree has finished.
+     *
+     * Idempotent — repeat calls return the same promise. Resolves immediately
+     * if the scope was already disposed with dispose().
+     */
+    disposeAsync(options?: DisposeAsyncOptions): Promise<void>;
+
+    // ── Suspend / resume ─────────────────────────────────────────────────────
+    // A suspended scope is alive but paused — e.g. the page is in the
+    // back/forward cache. The window scope suspends on a persisted pagehide
+    // and resumes on pageshow. Refresh loops pause while suspended.
+
+    /**
+     * Run fn when this scope (or an ancestor) is suspended.
+     * Children are suspended first, then handlers run in LIFO order.
+     * Returns a function that removes the handler.
+     */
+    onSuspend(fn: DisposeFn): DisposeFn;
+
+    /**
+     * Run fn when this scope (or an ancestor) resumes.
+     * Handlers run in registration order, then children resume.
+     * Returns a function that removes the handler.
+     */
+    onResume(fn: DisposeFn): DisposeFn;
+
+    /** Suspend this scope and its subtree. No-op if suspended or disposed. */
+    suspend(): void;
+
+    /** Resume this scope and its subtree. No-op if not suspended or disposed. */
+    resume(): void;
+
+    /** True between suspend() and resume(). New children inherit it. */
+    isSuspended(): boolean;
+
+    // ── Error boundaries ─────────────────────────────────────────────────────
+    // Errors reported on a scope go to the nearest scope (itself first, then
+    // ancestors) that has at least one onError handler. With no boundary up
+    // to the root, the reporting module falls back to the configured logger.
+
+    /**
+     * Register an error boundary for this scope's subtree.
+     * All handlers on the boundary are called. A handler that throws passes
+     * the thrown error on to the next boundary up.
+     *
+     * Returns a function that removes the handler. Handlers are dropped when
+     * the scope is disposed; errors from its own cleanups still reach them.
+     *
+     * @example
+     * scope.onError((error, { source }) => {
+     *   telemetry.report(error, { source });
+     *   el(root).html("<p>Something went wrong</p>");
+     * });
+     */
+    onError(handler: ScopeErrorHandler): DisposeFn;
+
+    /**
+     * Deliver an error to the nearest boundary.
+     * Returns false if there is none — the caller decides how to log it.
+     */
+    reportError(error: unknown, source?: ScopeErrorSource): boolean;
+
+    // ── Context ──────────────────────────────────────────────────────────────
+    // Values provided on a scope are visible to it and every descendant.
+    // A closer provider shadows a farther one. Cleared on disposal.
+
+    /**
+     * Provide a value for key to this scope and its descendants.
+     * Overwrites any value this scope already provides for key.
+     * Logs a warning and does nothing on a disposed scope.
+     */
+    provide<T>(key: ContextKey<T>, value: T): void;
+
+    /**
+     * Look up key on this scope, then each ancestor in turn.
+     *
+     * @throws If no scope in the chain provides key and key has no default.
+     *
+     * @example
+     * const api = scope.inject(ApiClientKey);
+     */
+    inject<T>(key: ContextKey<T>): T;
+
+    /** True if this scope or an ancestor provides key. Ignores defaults. */
+    hasContext<T>(key: ContextKey<T>): boolean;
+
+    // ── Tasks ────────────────────────────────────────────────────────────────
+    // Structured concurrency. Each task runs in its own child scope, which is
+    // disposed when the task settles — so losers of race()/any(), and siblings
+    // of a failed all() branch, are aborted through their signals.
+    // A task promise rejects with the scope's ScopeAbortError as soon as its
+    // scope is disposed, even if the task ignores its signal.
+
+    /**
+     * Run an async task owned by this scope and track it until it settles.
+     * Rejects immediately if the scope is already disposed.
+     *
+     * @example
+     * scope.run(async (signal) => {
+     *   const res = await fetch("/api/data", { signal });
+     *   model.set(await res.json());
+     * });
+     */
+    run<T>(task: ScopeTask<T>): Promise<T>;
+
+    /**
+     * Resolve once no task started with run() on this scope is pending.
+     * Never rejects. Tasks on descendant scopes are not counted.
+     */
+    whenIdle(): Promise<void>;
+
+    /** Settle with the first task to settle. The rest are aborted. */
+    race<T>(tasks: Array<ScopeTask<T>>): Promise<T>;
+
+    /** Resolve with every result in order. The first failure aborts the rest. */
+    all<T>(tasks: Array<ScopeTask<T>>): Promise<T[]>;
+
+    /**
+     * Resolve with the first task to succeed; the rest are aborted.
+     * Rejects with a CompositeError of every failure if none succeed.
+     */
+    any<T>(tasks: Array<ScopeTask<T>>): Promise<T>;
+
+    /**
+     * Run task with a deadline. When ms passes, the task is aborted and the
+     * promise rejects with a ScopeAbortError of kind "timeout".
+     */
+    timeout<T>(task: ScopeTask<T>, ms: number): Promise<T>;
+
+    // ── Scheduling ───────────────────────────────────────────────────────────
+    // Scope-owned timers. Each is cancelled automatically when the scope is
+    // disposed, never fires after abort, and unregisters its cleanup once it
+    // has fired. All return a DisposeFn that cancels early. On a disposed
+    // scope they are no-ops.
+
+    /** setTimeout owned by this scope. */
+    setTimeout(fn: () => void, ms?: number): DisposeFn;
+
+    /** setInterval owned by this scope. Runs until cancelled or disposed. */
+    setInterval(fn: () => void, ms: number): DisposeFn;
+
+    /**
+     * requestAnimationFrame owned by this scope.
+     * Falls back to a 16ms timeout where rAF is unavailable.
+     */
+    requestAnimationFrame(fn: (time: number) => void): DisposeFn;
+
+    /**
+     * requestIdleCallback owned by this scope.
+     * Falls back to a short timeout with a 50ms budget where unsupported.
+     */
+    requestIdleCallback(
+        fn: (deadline: IdleDeadline) => void,
+        options?: IdleRequestOptions
+    ): DisposeFn;
+
+    /**
+     * Resolve after ms milliseconds. Rejects with the scope's ScopeAbortError
+     * (an AbortError; its kind says why) if the scope is disposed first (or
+     * already is).
+     *
+     * @example
+     * await scope.sleep(300);
+     */
+    sleep(ms: number): Promise<void>;
+
+    // ── Introspection ────────────────────────────────────────────────────────
+    // Read-only. Intended for debugging and tests — never mutate the tree
+    // through the values returned here.
+
+    /** Live child scopes, in creation order. Empty once disposed. */
+    getChildren(): readonly Scope[];
+
+    /**
+     * Number of cleanups currently registered. Includes the internal cleanup
+     * each child registers on its parent. 0 once disposed.
+     */
+    cleanupCount(): number;
+
+    /**
+     * Slash-separated names from the root down to this scope.
+     * Unnamed scopes appear as "(anonymous)".
+     *
+     * @example
+     * scope.createChild("header").getPath(); // "window/app/header"
+     */
+    getPath(): string;
+
+    /** Serializable snapshot of this scope and all of its descendants. */
+    snapshot(): ScopeSnapshot;
 }
 
 export interface AutoRefreshOptions {
@@ -191,6 +1145,12 @@ export interface AutoRefreshOptions {
      */
     scope?: Scope;
 
+    /**
+     * Cache to fetch through. When the server reports the resource is
+     * unchanged (or the entry is still fresh) the tick skips reset() / set().
+     */
+    cache?: HttpCache;
+
     immediate?: boolean;
     startPaused?: boolean;
     onError?: (error: unknown) => void;
@@ -221,4 +1181,10 @@ export interface ViewOptions {
      * disposing the parent automatically disposes this view.
      */
     parentScope?: Scope;
+
+    /**
+     * Name for the view's scope. Default: the class's static displayName,
+     * then its constructor name — which minifiers mangle.
+     */
+    name?: string;
 }
@@ -13,10 +13,12 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  */
 
+import {log} from "../core/config";
+import {disposeSymbol} from "../core/disposable";
 import {createScope} from "../core/scope";
 import {Elements} from "../dom/elements";
 import {el} from "../dom/el";
-import {Scope, ViewOptions} from "../types/index";
+import {ContextKey, Scope, ViewOptions} from "../types/index";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // BoneMarrow View v1.2
@@ -36,6 +38,10 @@ import {Scope, ViewOptions} from "../types/index";
  * 3. `render()` → override to update DOM from model state
  * 4. `destroy()` → disposes scope, which cascades to all children
  *
+ * If `init()` throws and an error boundary exists above the view (see
+ * `scope.onError`), the error is reported there and the view is destroyed.
+ * Without a boundary the constructor rethrows.
+ *
  * Model lifecycle:
  * View does not automatically destroy the model. Wire it yourself in init()
  * if you want the model to die with the view:
@@ -56,6 +62,12 @@ import {Scope, ViewOptions} from "../types/index";
  * }
  */
 export class View<T = unknown> {
+    /**
+     * Name for this class's scopes. Set it where builds minify class names,
+     * which would otherwise show up in the scope tree as one-letter names.
+     */
+    static displayName?: string;
+
     protected readonly scope: Scope;
     private readonly _children = new Set<View>();
 
@@ -66,9 +78,14 @@ export class View<T = unknown> {
     ) {
         const { autoDestroy = true, parentScope } = options;
 
+        // Name the scope after the concrete view class so the live scope tree
+        // (snapshotScopeTree()) reads as a component tree when debugging.
+        const name = options.name
+            ?? (this.constructor as typeof View).displayName
+            ?? this.constructor.name;
         this.scope = parentScope
-            ? parentScope.createChild()
-            : createScope();
+            ? parentScope.createChild(name)
+            : createScope({ name });
 
         // Clean up child tracking when a child self-disposes.
         // Scope tree already handles propagating disposal to children —
@@ -81,7 +98,15 @@ export class View<T = unknown> {
             this._setupAutoDestroy();
         }
 
-        this.init();
+        try {
+            this.init();
+        } catch (error) {
+            // With a boundary above, report and tear down the half-initialized
+            // view — the boundary decides what to show instead. Without one,
+            // construction fails loudly as before.
+            if (!this.scope.reportError(error, "view")) throw error;
+            this.destroy();
+        }
     }
 
     // ── Lifecycle hooks ───────────────────────────────────────────────────────
@@ -160,6 +185,32 @@ export class View<T = unknown> {
         this.$root().trigger(event, detail);
     }
 
+    // ── Context ───────────────────────────────────────────────────────────────
+
+    /**
+     * Provide a value to this view and every view created beneath it.
+     *
+     * @example
+     * protected init() {
+     *   this.provide(ApiClientKey, new ApiClient());
+     * }
+     */
+    protected provide<V>(key: ContextKey<V>, value: V): void {
+        this.checkDestroyed();
+        this.scope.provide(key, value);
+    }
+
+    /**
+     * Look up a value provided by this view, an ancestor view, or any scope
+     * above it (e.g. the parentScope passed at construction).
+     *
+     * @throws If nothing provides key and key has no default.
+     */
+    protected inject<V>(key: ContextKey<V>): V {
+        this.checkDestroyed();
+        return this.scope.inject(key);
+    }
+
     // ── Children ──────────────────────────────────────────────────────────────
 
     /**
@@ -246,6 +297,11 @@ export class View<T = unknown> {
         this.scope.dispose();
     }
 
+    /** Same as destroy(). Lets `using` own the view. */
+    [disposeSymbol](): void {
+        this.destroy();
+    }
+
     /**
      * True if this view has been destroyed.
      */
@@ -263,8 +319,10 @@ export class View<T = unknown> {
 
     private _setupAutoDestroy(): void {
         if (!this.root.parentElement) {
-            console.warn(
-                "[View] autoDestroy is enabled but root has no parentElement. " +
+            log(
+                "View",
+                "warn",
+                "autoDestroy is enabled but root has no parentElement. " +
                 "The MutationObserver cannot attach. Ensure root is in the DOM " +
                 "before constructing the view, or disable autoDestroy."
             );